@@ -1,22 +1,53 @@
 
 
 
-import React, { useState, useCallback, useEffect } from 'react';
+import React, { useState, useCallback, useEffect, useRef } from 'react';
 import { FEMALE_CHARACTERS, MALE_CHARACTERS } from './constants';
 // FIX: Import Conversation type to explicitly type object values.
-import type { Character, Message, Conversation, Conversations, UserGender, GeminiContent, GeminiMessagePart, ImageStyle } from './types';
+import type { Character, Message, Conversation, Conversations, UserGender, ImageStyle, ImageJob, ResponseVariant } from './types';
 import ChatList from './components/ChatList';
 import ChatWindow from './components/ChatWindow';
 import LoginScreen from './components/LoginScreen';
 import GenderSelectionScreen from './components/GenderSelectionScreen';
 import SplashScreen from './components/SplashScreen';
-import { generateChatResponse } from './services/geminiService';
-import * as mediaService from './services/mediaService';
+import CharacterEditorModal from './components/CharacterEditorModal';
+import { generateChatResponse, streamChatResponse } from './services/geminiService';
+import type { GeminiResponse } from './services/responseParser';
+import { buildChatContents, MAX_HISTORY_CONTENTS } from './services/chatHistory';
 import { generateNewCharacter } from './services/characterService';
 import * as storageService from './services/storageService';
+import * as backupService from './services/backupService';
+import * as transcriptService from './services/transcriptService';
+import * as characterCardService from './services/characterCardService';
+import * as summaryService from './services/summaryService';
+import * as memoryService from './services/memoryService';
+import * as referenceImageService from './services/referenceImageService';
+import * as variantService from './services/variantService';
+import * as branchService from './services/branchService';
+import * as voiceCallService from './services/voiceCallService';
+import { imageJobQueue } from './services/imageJobQueue';
+import type { ImageJobResult } from './services/imageJobQueue';
+import { downloadBlob, fileDateStamp } from './services/downloadService';
 
 const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
 
+const imageJobPlaceholder = (job: Pick<ImageJob, 'id' | 'loadingText'>, timestamp: Date): Message =>
+  ({ id: job.id, text: '', sender: 'ai', timestamp, isLoading: true, loadingText: job.loadingText });
+
+// The message a finished image job leaves in place of its loading bubble.
+const imageJobResultMessage = (job: ImageJob, result: ImageJobResult): Partial<Message> => {
+  const failure = job.kind === 'edit' ? "알 수 없는 오류로 이미지를 수정하지 못했습니다." : "알 수 없는 오류로 미디어를 생성하지 못했습니다.";
+  if (!result.imageUrl) return { isLoading: false, text: result.error || failure, loadingText: '', isError: true };
+  return {
+    isLoading: false,
+    imageUrls: [result.imageUrl],
+    loadingText: '',
+    text: result.error ? `이미지를 생성하지 못했어요: ${result.error}` : '',
+    isError: !!result.error,
+    media: job.kind === 'edit' ? { source: 'edit', prompt: job.prompt } : { source: 'generate', prompt: job.prompt, style: job.style },
+  };
+};
+
 // --- Image Viewer Modal Component ---
 const ImageViewerModal: React.FC<{ imageUrl: string; onClose: () => void; }> = ({ imageUrl, onClose }) => {
   useEffect(() => {
@@ -57,12 +88,10 @@ const ImageViewerModal: React.FC<{ imageUrl: string; onClose: () => void; }> = (
 // Keys for localStorage
 const AUTH_KEY = 'ai_chat_auth_status';
 const GENDER_PREFERENCE_KEY = 'ai_chat_gender_preference';
-const CONVERSATIONS_KEY_PREFIX = 'ai_chat_conversations_';
-const ACTIVE_CHARACTERS_KEY_PREFIX = 'ai_chat_active_characters_';
 const FAVORITE_CHARACTERS_KEY_PREFIX = 'ai_chat_favorites_';
-const AVATAR_KEY_PREFIX = 'ai_chat_avatar_';
+const SUMMARY_RETRY_DELAY_MS = 5 * 60 * 1000;
 
-const fileToBase64 = (file: File): Promise<string> =>
+const fileToBase64 = (file: Blob): Promise<string> =>
   new Promise((resolve, reject) => {
     const reader = new FileReader();
     reader.readAsDataURL(file);
@@ -87,6 +116,17 @@ const App: React.FC = () => {
   const [isCreatingCharacter, setIsCreatingCharacter] = useState(false);
   const [enlargedImageUrl, setEnlargedImageUrl] = useState<string | null>(null);
   const [isAdminMode, setIsAdminMode] = useState(false);
+  const [editorState, setEditorState] = useState<{ character: Character | null; isEditingExisting: boolean } | null>(null);
+  // Messages already written to IndexedDB; state updates replace message objects, so anything not in here is new or changed.
+  const persistedMessagesRef = useRef(new WeakSet<Message>());
+  // Profile whose stored data has finished loading; saving before then would overwrite it with empty state.
+  const loadedProfileRef = useRef<UserGender | null>(null);
+  // The latest conversations, for handlers that check the state again after awaiting a reply.
+  const conversationsRef = useRef(conversations);
+  conversationsRef.current = conversations;
+  // Characters whose summary is being refreshed, and when a failed refresh may be retried.
+  const summarizingRef = useRef(new Set<string>());
+  const summaryRetryAfterRef = useRef(new Map<string, number>());
   
   // Splash screen effect
   useEffect(() => {
@@ -97,13 +137,12 @@ const App: React.FC = () => {
   }, []);
   
   // Dynamic localStorage keys based on gender preference
-  const CONVERSATIONS_KEY = genderPreference ? `${CONVERSATIONS_KEY_PREFIX}${genderPreference}` : null;
-  const ACTIVE_CHARACTERS_KEY = genderPreference ? `${ACTIVE_CHARACTERS_KEY_PREFIX}${genderPreference}` : null;
   const FAVORITE_CHARACTERS_KEY = genderPreference ? `${FAVORITE_CHARACTERS_KEY_PREFIX}${genderPreference}` : null;
   
   // Load characters and conversations when genderPreference is set
   useEffect(() => {
-    if (!genderPreference || !ACTIVE_CHARACTERS_KEY || !CONVERSATIONS_KEY || !FAVORITE_CHARACTERS_KEY) {
+    loadedProfileRef.current = null;
+    if (!genderPreference || !FAVORITE_CHARACTERS_KEY) {
         setCharacters([]);
         setConversations({});
         setFavoriteCharacterIds([]);
@@ -114,14 +153,8 @@ const App: React.FC = () => {
         const ALL_CHARACTERS = genderPreference === 'female' ? FEMALE_CHARACTERS : MALE_CHARACTERS;
         const ALL_CHARACTERS_MAP = new Map(ALL_CHARACTERS.map(c => [c.id, c]));
 
-        let characterShells: (Partial<Character> & { id: string })[];
-        try {
-          const stored = localStorage.getItem(ACTIVE_CHARACTERS_KEY);
-          characterShells = (stored ? JSON.parse(stored) : ALL_CHARACTERS.slice(0, 3)).filter((c: any) => c && c.id);
-        } catch (e) {
-          console.error("Failed to load active characters from localStorage", e);
-          characterShells = ALL_CHARACTERS.slice(0, 3);
-        }
+        const storedShells = await storageService.getActiveCharacters(genderPreference);
+        const characterShells: storageService.CharacterShell[] = (storedShells ?? ALL_CHARACTERS.slice(0, 3)).filter(c => c && c.id);
         
         const loadedCharacters = await Promise.all(characterShells.map(async (shell) => {
             const isPredefined = ALL_CHARACTERS_MAP.has(shell.id);
@@ -132,65 +165,82 @@ const App: React.FC = () => {
             } else {
                 fullChar = await storageService.getCharacter(shell.id);
                 if (fullChar) {
-                  // Hydrate with shell data from LS in case IDB is slower
+                  // Hydrate with the stored shell in case the full record is stale
                   fullChar = { ...fullChar, ...shell };
                 }
             }
 
             if (!fullChar) return null;
 
-            const avatarKey = `${AVATAR_KEY_PREFIX}${genderPreference}_${fullChar.id}`;
+            const avatarKey = storageService.getAvatarKey(genderPreference, fullChar.id);
             const storedAvatar = await storageService.getAvatar(avatarKey);
             
             if (storedAvatar) {
                 fullChar.avatarUrl = storedAvatar;
             } else if (isPredefined && fullChar.avatarUrl.includes('i.ibb.co')) {
-                console.log(`No stored avatar for ${fullChar.name}, generating...`);
-                const promptMatch = fullChar.systemPrompt.match(/- 프롬프트 예시: "([^"]+)"/);
-                const avatarPrompt = promptMatch ? promptMatch[1] : null;
+                const avatarPrompt = fullChar.promptSections?.mediaRules?.selfiePromptExample
+                    ?? fullChar.systemPrompt.match(/- 프롬프트 예시: "([^"]+)"/)?.[1];
 
                 if (avatarPrompt) {
-                    try {
-                        const result = await mediaService.generateImage(avatarPrompt, 'Photorealistic');
-                        if (result.imageUrl) {
-                            console.log(`New avatar generated for ${fullChar.name}.`);
-                            await storageService.saveAvatar(avatarKey, result.imageUrl);
-                            fullChar.avatarUrl = result.imageUrl;
-                        } else {
-                             console.error(`Failed to generate avatar for ${fullChar.name}:`, result.error);
-                        }
-                    } catch (e) {
-                         console.error(`Exception while generating avatar for ${fullChar.name}:`, e);
-                    }
+                    console.log(`No stored avatar for ${fullChar.name}, queueing one...`);
+                    await imageJobQueue.enqueue({
+                        id: `avatar-${genderPreference}-${fullChar.id}`,
+                        profile: genderPreference,
+                        characterId: fullChar.id,
+                        purpose: 'avatar',
+                        kind: 'generate',
+                        prompt: avatarPrompt,
+                        style: 'Photorealistic',
+                        loadingText: '',
+                    });
                 }
             }
             return fullChar;
         }));
 
-        setCharacters(loadedCharacters.filter((c): c is Character => c !== null));
-
         // --- Load conversations & favorites ---
-        let loadedConversations: Conversations = {};
-        try {
-          const stored = localStorage.getItem(CONVERSATIONS_KEY);
-          if (stored) {
-            loadedConversations = JSON.parse(stored);
-            Object.values(loadedConversations).forEach(conv => {
-                if (conv.messages) conv.messages.forEach(msg => msg.timestamp = new Date(msg.timestamp));
-            });
-          }
-        } catch (e) { console.error("Failed to load conversations from localStorage", e); }
-        setConversations(loadedConversations);
-        
+        // The stored conversation state carries no messages; the latest page is read from the message store.
+        const loadedConversations: Conversations = (await storageService.getConversations(genderPreference)) ?? {};
+        await Promise.all(Object.values(loadedConversations).map(async (conv) => {
+            const page = await storageService.getMessagesPage(conv.characterId);
+            conv.messages = page.messages;
+            conv.hasMoreHistory = page.hasMore;
+            page.messages.forEach(msg => persistedMessagesRef.current.add(msg));
+        }));
+
+        let loadedFavorites: string[] = [];
         try {
             const stored = localStorage.getItem(FAVORITE_CHARACTERS_KEY);
-            setFavoriteCharacterIds(stored ? JSON.parse(stored) : []);
+            loadedFavorites = stored ? JSON.parse(stored) : [];
         } catch (e) { console.error("Failed to load favorites from localStorage", e); }
+
+        if (cancelled) return;
+        loadedProfileRef.current = genderPreference;
+        // Set together so the initializer effect doesn't start fresh conversations before the stored ones arrive.
+        setCharacters(loadedCharacters.filter((c): c is Character => c !== null));
+        setConversations(loadedConversations);
+        setFavoriteCharacterIds(loadedFavorites);
+
+        // Image jobs left unfinished by a reload or a profile switch resume now, each with its loading bubble back in place.
+        const pendingJobs = await imageJobQueue.activate(genderPreference);
+        const pendingMessageJobs = pendingJobs.filter(job => job.purpose === 'message');
+        if (pendingMessageJobs.length === 0) return;
+        setConversations(prev => {
+            const next = { ...prev };
+            for (const job of pendingMessageJobs) {
+                const conversation = next[job.characterId];
+                if (!conversation || conversation.messages.some(msg => msg.id === job.id)) continue;
+                next[job.characterId] = { ...conversation, messages: [...conversation.messages, imageJobPlaceholder(job, new Date(job.createdAt))] };
+            }
+            return next;
+        });
     };
 
+    let cancelled = false;
     loadData();
+    return () => { cancelled = true; };
 
-  }, [genderPreference, ACTIVE_CHARACTERS_KEY, CONVERSATIONS_KEY, FAVORITE_CHARACTERS_KEY]);
+  }, [genderPreference, FAVORITE_CHARACTERS_KEY]);
 
   // Effect to initialize conversations for active characters
   useEffect(() => {
@@ -233,58 +283,59 @@ const App: React.FC = () => {
 
 
   useEffect(() => {
-    if (!conversations || Object.keys(conversations).length === 0 || !CONVERSATIONS_KEY) return;
+    if (!conversations || Object.keys(conversations).length === 0 || !genderPreference || loadedProfileRef.current !== genderPreference) return;
     try {
         const conversationsToSave: Conversations = {};
         for (const charId in conversations) {
             if (!characters.some(c => c.id === charId)) continue;
             const conversation = conversations[charId];
-            const truncatedMessages = conversation.messages.slice(-30).map(msg => {
-                const { imageUrls, isLoading, loadingText, ...rest } = msg;
-                return (imageUrls && !rest.text) ? { ...rest, text: "📷 사진" } : rest;
-            });
-            conversationsToSave[charId] = { ...conversation, messages: truncatedMessages, chatSession: undefined };
+            // Loading placeholders are saved once they resolve into their final message.
+            const changedMessages = conversation.messages.filter(msg => !msg.isLoading && !persistedMessagesRef.current.has(msg));
+            if (changedMessages.length > 0) {
+                changedMessages.forEach(msg => persistedMessagesRef.current.add(msg));
+                storageService.saveMessages(charId, changedMessages).catch(() => {
+                    changedMessages.forEach(msg => persistedMessagesRef.current.delete(msg));
+                });
+            }
+            conversationsToSave[charId] = { ...conversation, messages: [], hasMoreHistory: undefined, chatSession: undefined };
         }
-      localStorage.setItem(CONVERSATIONS_KEY, JSON.stringify(conversationsToSave));
-    } catch (error) { console.error("Failed to save conversations to localStorage", error); }
-  }, [conversations, CONVERSATIONS_KEY, characters]);
+      storageService.saveConversations(genderPreference, conversationsToSave);
+    } catch (error) { console.error("Failed to save conversations to IndexedDB", error); }
+  }, [conversations, genderPreference, characters]);
   
   useEffect(() => {
-    if (FAVORITE_CHARACTERS_KEY) {
+    if (FAVORITE_CHARACTERS_KEY && loadedProfileRef.current === genderPreference) {
       try {
         localStorage.setItem(FAVORITE_CHARACTERS_KEY, JSON.stringify(favoriteCharacterIds));
       } catch (error) { console.error("Failed to save favorites to localStorage", error); }
     }
-  }, [favoriteCharacterIds, FAVORITE_CHARACTERS_KEY]);
+  }, [favoriteCharacterIds, FAVORITE_CHARACTERS_KEY, genderPreference]);
   
    useEffect(() => {
-    if (ACTIVE_CHARACTERS_KEY && genderPreference) {
+    if (genderPreference && loadedProfileRef.current === genderPreference) {
       const ALL_PREDEFINED_CHARS = genderPreference === 'female' ? FEMALE_CHARACTERS : MALE_CHARACTERS;
       const PREDEFINED_CHARACTER_IDS = new Set(ALL_PREDEFINED_CHARS.map(c => c.id));
       
-      const charactersForLocalStorage: Partial<Character>[] = [];
+      const characterShells: storageService.CharacterShell[] = [];
       const characterSavePromises: Promise<void>[] = [];
 
       for (const char of characters) {
         if (PREDEFINED_CHARACTER_IDS.has(char.id)) {
-          charactersForLocalStorage.push({ id: char.id });
+          characterShells.push({ id: char.id });
         } else {
-          // For custom characters, store a minimal shell in localStorage
-          const { systemPrompt, avatarUrl, ambientSounds, ...shell } = char;
-          charactersForLocalStorage.push(shell);
+          // For custom characters, store a minimal shell in the profile state
+          const { systemPrompt, promptSections, avatarUrl, ambientSounds, ...shell } = char;
+          characterShells.push(shell);
           // And store the full data in IndexedDB
           characterSavePromises.push(storageService.saveCharacter(char));
         }
       }
 
       Promise.all(characterSavePromises)
-        .then(() => {
-            try { localStorage.setItem(ACTIVE_CHARACTERS_KEY, JSON.stringify(charactersForLocalStorage)); } 
-            catch (e) { console.error("Failed to save active characters to localStorage", e); }
-        })
+        .then(() => storageService.saveActiveCharacters(genderPreference, characterShells))
         .catch(e => console.error("Failed to save some character data to IndexedDB", e));
     }
-  }, [characters, ACTIVE_CHARACTERS_KEY, genderPreference]);
+  }, [characters, genderPreference]);
 
 
   const handleLogin = useCallback(() => {
@@ -292,8 +343,40 @@ const App: React.FC = () => {
     setIsAuthenticated(true);
   }, []);
 
+  const handleExportBackup = useCallback(async () => {
+    if (!genderPreference) return;
+    try {
+        const archive = await backupService.createProfileArchive(genderPreference, { characters, conversations, favoriteCharacterIds });
+        downloadBlob(archive, `ai-chat-backup-${genderPreference}-${fileDateStamp()}.json`);
+    } catch (error) {
+        console.error("Failed to export backup", error);
+        alert(`백업 파일을 만들지 못했어요. 😢\n${error instanceof Error ? error.message : ''}`);
+    }
+  }, [genderPreference, characters, conversations, favoriteCharacterIds]);
+
+  const handleImportBackup = useCallback(async (file: File, mode: backupService.RestoreMode) => {
+    if (!genderPreference) return;
+    if (mode === 'replace' && !window.confirm("현재 대화와 캐릭터를 모두 지우고 백업 파일의 내용으로 바꾸시겠습니까?")) return;
+    try {
+        const archive = backupService.parseProfileArchive(await file.text(), genderPreference);
+        const restored = await backupService.restoreProfileArchive(archive, mode, { characters, conversations, favoriteCharacterIds });
+        Object.values(restored.conversations).forEach(conv => conv.messages.forEach(msg => persistedMessagesRef.current.add(msg)));
+        setSelectedCharacterId(null);
+        setCharacters(restored.characters);
+        setConversations(restored.conversations);
+        setFavoriteCharacterIds(restored.favoriteCharacterIds);
+        alert("백업 파일을 불러왔어요.");
+    } catch (error) {
+        console.error("Failed to import backup", error);
+        alert(`백업 파일을 불러오지 못했어요. 😢\n${error instanceof Error ? error.message : ''}`);
+    }
+  }, [genderPreference, characters, conversations, favoriteCharacterIds]);
+
   const handleLogout = useCallback(() => {
-    localStorage.clear(); // Clear all data on logout for a clean state
+    if (!window.confirm("로그아웃할까요? 대화 기록과 설정은 이 브라우저에 그대로 남아요.")) return;
+    // Only the sign-in state is cleared; chats, characters and settings stay for the next login.
+    localStorage.removeItem(AUTH_KEY);
+    localStorage.removeItem(GENDER_PREFERENCE_KEY);
     setIsAuthenticated(false);
     setGenderPreference(null);
     setCharacters([]);
@@ -330,7 +413,7 @@ const App: React.FC = () => {
     setIsCreatingCharacter(true);
     try {
         const newChar = await generateNewCharacter(characters, genderPreference);
-        const avatarKey = `${AVATAR_KEY_PREFIX}${genderPreference}_${newChar.id}`;
+        const avatarKey = storageService.getAvatarKey(genderPreference, newChar.id);
         await storageService.saveAvatar(avatarKey, newChar.avatarUrl);
         await storageService.saveCharacter(newChar);
         setCharacters(prev => [newChar, ...prev]);
@@ -342,6 +425,71 @@ const App: React.FC = () => {
   }, [characters, genderPreference, isCreatingCharacter, handleSelectCharacter]);
 
 
+  const handleOpenCharacterEditor = useCallback((character?: Character) => {
+    if (!character) {
+        setEditorState({ character: null, isEditingExisting: false });
+        return;
+    }
+    // Predefined characters are rebuilt from constants on load, so edits to them are saved as a custom copy.
+    const isPredefined = [...FEMALE_CHARACTERS, ...MALE_CHARACTERS].some(c => c.id === character.id);
+    setEditorState(isPredefined
+        ? { character: { ...character, id: `${character.id}_custom`, name: `${character.name} (커스텀)` }, isEditingExisting: false }
+        : { character, isEditingExisting: true });
+  }, []);
+
+  const handleCloseCharacterEditor = useCallback(() => setEditorState(null), []);
+
+  const handleGenerateCharacterDraft = useCallback(() => {
+    if (!genderPreference) return Promise.reject(new Error("No profile selected"));
+    return generateNewCharacter(characters, genderPreference);
+  }, [characters, genderPreference]);
+
+  const handleSaveCharacter = useCallback(async (character: Character) => {
+    if (!genderPreference || !editorState) return;
+    const avatarChanged = character.avatarUrl && character.avatarUrl !== editorState.character?.avatarUrl;
+    if (avatarChanged || !editorState.isEditingExisting) {
+        if (character.avatarUrl) await storageService.saveAvatar(storageService.getAvatarKey(genderPreference, character.id), character.avatarUrl);
+    }
+    await storageService.saveCharacter(character);
+    if (editorState.isEditingExisting) {
+        setCharacters(prev => prev.map(c => c.id === character.id ? character : c));
+    } else {
+        setCharacters(prev => [character, ...prev]);
+        handleSelectCharacter(character.id);
+    }
+    setEditorState(null);
+  }, [editorState, genderPreference, handleSelectCharacter]);
+
+  const handleImportCharacterCard = useCallback(async (file: File) => {
+    if (!genderPreference) return;
+    try {
+        const card = await characterCardService.parseCharacterCardFile(file);
+        // Never overwrite an active or predefined character that happens to share the card's id.
+        const takenIds = new Set([...characters, ...FEMALE_CHARACTERS, ...MALE_CHARACTERS].map(c => c.id));
+        const id = takenIds.has(card.character.id) ? `${card.character.id}_${Date.now().toString(36)}` : card.character.id;
+        const newChar: Character = { ...card.character, id, avatarUrl: card.avatar ?? '' };
+        if (card.avatar) await storageService.saveAvatar(storageService.getAvatarKey(genderPreference, id), card.avatar);
+        await storageService.saveCharacter(newChar);
+        setCharacters(prev => [newChar, ...prev]);
+        handleSelectCharacter(id);
+    } catch (error) {
+        console.error("Failed to import character card", error);
+        alert(`캐릭터 카드를 불러오지 못했어요. 😢\n${error instanceof Error ? error.message : ''}`);
+    }
+  }, [characters, genderPreference, handleSelectCharacter]);
+
+  const handleExportCharacterCard = useCallback(async (character: Character, format: 'json' | 'png') => {
+    try {
+        const card = format === 'png'
+            ? await characterCardService.exportCharacterCardPng(character)
+            : await characterCardService.exportCharacterCardJson(character);
+        downloadBlob(card, `${character.name}-card.${format}`);
+    } catch (error) {
+        console.error("Failed to export character card", error);
+        alert(`캐릭터 카드를 만들지 못했어요. 😢\n${error instanceof Error ? error.message : ''}`);
+    }
+  }, []);
+
   const handleBackToList = useCallback(() => setSelectedCharacterId(null), []);
   const handleShowImage = useCallback((url: string) => setEnlargedImageUrl(url), []);
 
@@ -376,26 +524,153 @@ const App: React.FC = () => {
     });
   }, []);
   
+  const removeMessageFromConversation = useCallback((charId: string, messageId: string) => {
+    setConversations(prev => {
+        const conversation = prev[charId];
+        if (!conversation) return prev;
+        return { ...prev, [charId]: { ...conversation, messages: conversation.messages.filter(msg => msg.id !== messageId) } };
+    });
+  }, []);
+
+  // Finished image jobs replace their loading bubbles; jobs of a profile that is no longer shown are written to storage directly.
+  useEffect(() => imageJobQueue.subscribe((job, event) => {
+    const isShown = job.profile === loadedProfileRef.current;
+
+    if (job.purpose === 'avatar') {
+        if (event.type !== 'finished' || !event.result.imageUrl) {
+            if (event.type === 'finished' && !event.result.cancelled) console.error(`Failed to generate avatar for '${job.characterId}':`, event.result.error);
+            return;
+        }
+        const imageUrl = event.result.imageUrl;
+        storageService.saveAvatar(storageService.getAvatarKey(job.profile, job.characterId), imageUrl)
+            .catch(error => console.error("Failed to save the generated avatar", error));
+        if (isShown) setCharacters(prev => prev.map(c => c.id === job.characterId ? { ...c, avatarUrl: imageUrl } : c));
+        return;
+    }
+
+    if (event.type === 'retrying') {
+        if (isShown) updateMessageInConversation(job.characterId, job.id, { loadingText: `요청이 많아서 ${Math.ceil(event.delayMs / 1000)}초 뒤에 다시 시도할게요...` });
+        return;
+    }
+
+    const { result } = event;
+    if (result.cancelled) {
+        if (isShown) removeMessageFromConversation(job.characterId, job.id);
+        return;
+    }
+
+    // Without an avatar or pinned image, the first generated selfie becomes the character's face.
+    if (job.pinAsReference && result.imageUrl && !result.error) {
+        referenceImageService.pinReferenceImage(job.profile, job.characterId, result.imageUrl)
+            .catch(error => console.error("Failed to keep the first image as the face reference", error));
+    }
+
+    const updates = imageJobResultMessage(job, result);
+    if (isShown) {
+        updateMessageInConversation(job.characterId, job.id, updates);
+    } else {
+        storageService.saveMessages(job.characterId, [{ ...imageJobPlaceholder(job, new Date(job.createdAt)), ...updates }])
+            .catch(error => console.error("Failed to save a finished image job", error));
+    }
+  }), [updateMessageInConversation, removeMessageFromConversation]);
+
   const handleToggleFavorite = useCallback((characterId: string) => {
     setFavoriteCharacterIds(prevIds => prevIds.includes(characterId) ? prevIds.filter(id => id !== characterId) : [...prevIds, characterId]);
   }, []);
 
-  const handleEditImage = async (character: Character, prompt: string, file: File) => {
-    const loadingMessageId = `loading-${Date.now()}`;
-    addMessageToConversation(character.id, { id: loadingMessageId, text: '', sender: 'ai', timestamp: new Date(), isLoading: true, loadingText: '이미지를 수정하고 있어요...' });
-    const result = await mediaService.editImage(file, prompt);
-    if (result.imageUrl) {
-        updateMessageInConversation(character.id, loadingMessageId, { isLoading: false, imageUrls: [result.imageUrl], loadingText: '' });
-    } else {
-        updateMessageInConversation(character.id, loadingMessageId, { isLoading: false, text: result.error || "알 수 없는 오류로 이미지를 수정하지 못했습니다.", loadingText: '', isError: true });
+  const handleEditImage = useCallback(async (character: Character, prompt: string, photoUrl: string) => {
+    if (!genderPreference) return;
+    const jobId = `image-${Date.now()}`;
+    const loadingText = '이미지를 수정하고 있어요...';
+    addMessageToConversation(character.id, imageJobPlaceholder({ id: jobId, loadingText }, new Date()));
+    let sourceImage: Blob;
+    try {
+        sourceImage = await (await fetch(photoUrl)).blob();
+    } catch (error) {
+        console.error("Failed to read the photo to edit", error);
+        updateMessageInConversation(character.id, jobId, { isLoading: false, text: "수정할 사진을 불러오지 못했어요.", loadingText: '', isError: true });
+        return;
     }
-  };
+    await imageJobQueue.enqueue({ id: jobId, profile: genderPreference, characterId: character.id, purpose: 'message', kind: 'edit', prompt, style: 'Photorealistic', sourceImage, loadingText });
+  }, [genderPreference, addMessageToConversation, updateMessageInConversation]);
+
+  // Queues an image the character sends, keeping the character's face when a reference exists.
+  const deliverGeneratedImage = useCallback(async (character: Character, prompt: string, style: ImageStyle, loadingText: string) => {
+    if (!genderPreference) return;
+    const jobId = `image-${Date.now()}`;
+    addMessageToConversation(character.id, imageJobPlaceholder({ id: jobId, loadingText }, new Date()));
+    const reference = await referenceImageService.getReferenceImage(genderPreference, character);
+    await imageJobQueue.enqueue({
+        id: jobId,
+        profile: genderPreference,
+        characterId: character.id,
+        purpose: 'message',
+        kind: 'generate',
+        prompt,
+        style,
+        reference: reference ?? undefined,
+        pinAsReference: !reference && style === 'Photorealistic',
+        loadingText,
+    });
+  }, [genderPreference, addMessageToConversation]);
+
+  // Cancelling removes the loading bubble; one whose job is already gone is just stale and removed directly.
+  const handleCancelImageJob = useCallback((character: Character, messageId: string) => {
+    if (!imageJobQueue.cancel(messageId)) removeMessageFromConversation(character.id, messageId);
+  }, [removeMessageFromConversation]);
 
-  const handleSendMessage = useCallback(async (character: Character, text: string, attachedFile?: File, threadParentId?: string) => {
-    const currentConversation = conversations[character.id];
+  const handleGenerateImage = useCallback(async (character: Character, prompt: string, style: ImageStyle) => {
+    if (!conversations[character.id]?.chatActive) return;
+    addMessageToConversation(character.id, { id: `user-${Date.now()}`, text: `🎨 ${prompt} (${style})`, sender: 'user', timestamp: new Date() });
+    await deliverGeneratedImage(character, prompt, style, '그림을 그리는 중...');
+  }, [conversations, addMessageToConversation, deliverGeneratedImage]);
+
+  // Acts on a reply's commands: remembered facts, leaving the chat, and the images it asked for. `history` ends with the user's turn.
+  const handleResponseCommands = useCallback(async (character: Character, response: GeminiResponse, history: Message[]) => {
+    if (response.memories.length > 0) {
+        memoryService.rememberFacts(character.id, response.memories)
+            .catch(error => console.error("Failed to save remembered facts", error));
+    }
+
+    if (response.hasLeft) {
+        setConversations(prev => ({ ...prev, [character.id]: { ...prev[character.id], chatActive: false } }));
+        return;
+    }
+    
+    // Then, handle automatic image generation
+    if (response.imageGenerationPrompt) {
+        await deliverGeneratedImage(character, response.imageGenerationPrompt, 'Photorealistic', '사진을 만드는 중...');
+    }
+
+    // Photo edits apply to the newest photo the user sent, and only for characters that can edit images.
+    if (response.editImage) {
+        const lastUserMessage = [...history].reverse().find(msg => msg.sender === 'user');
+        const photoMessage = [...history].reverse().find(msg => msg.sender === 'user' && msg.imageUrls?.length);
+        const editPrompt = response.editImagePrompt || lastUserMessage?.text || photoMessage?.text;
+        if (!character.capabilities?.includes('image_edit')) {
+            console.warn(`Ignoring EDIT_IMAGE from '${character.id}', which lacks the image_edit capability.`);
+        } else if (!photoMessage || !editPrompt) {
+            console.warn("Ignoring EDIT_IMAGE: there is no user photo or edit instruction.", { editPrompt });
+        } else {
+            await handleEditImage(character, editPrompt, photoMessage.imageUrls![photoMessage.imageUrls!.length - 1]);
+        }
+    }
+  }, [deliverGeneratedImage, handleEditImage]);
+
+  // `baseConversation` is the conversation to answer when the state hasn't caught up yet, as right after a fork.
+  const handleSendMessage = useCallback(async (character: Character, text: string, attachedFile?: File, threadParentId?: string, baseConversation?: Conversation) => {
+    const currentConversation = baseConversation ?? conversations[character.id];
     if (!currentConversation?.chatActive) return;
 
-    const userMessage: Message = { id: `user-${Date.now()}`, text: text.trim(), sender: 'user', timestamp: new Date(), imageUrls: attachedFile ? [URL.createObjectURL(attachedFile)] : undefined, threadParentId };
+    const userMessage: Message = {
+        id: `user-${Date.now()}`,
+        text: text.trim(),
+        sender: 'user',
+        timestamp: new Date(),
+        imageUrls: attachedFile ? [URL.createObjectURL(attachedFile)] : undefined,
+        threadParentId,
+        stats: { affinity: currentConversation.affinity, sexyMood: currentConversation.sexyMood },
+    };
     addMessageToConversation(character.id, userMessage);
     
     // --- Dynamic Thinking Time ---
@@ -417,121 +692,351 @@ const App: React.FC = () => {
     }
 
     const fullHistory = [...currentConversation.messages, userMessage];
-    
-    // --- START: Robust History Preparation ---
-    const mergedContents = fullHistory.reduce<GeminiContent[]>((acc, msg) => {
-        const role = msg.sender === 'user' ? 'user' : 'model';
-        const parts: GeminiMessagePart[] = [];
-        
-        if (msg.id === userMessage.id && fileData) {
-            parts.push({ inlineData: fileData });
-        }
-        
-        if (msg.text?.trim()) {
-            parts.push({ text: msg.text.trim() });
-        }
-        
-        if (parts.length === 0) {
-            return acc;
-        }
-
-        const lastContent = acc[acc.length - 1];
-        if (lastContent && lastContent.role === role) {
-            lastContent.parts.push(...parts);
-        } else {
-            acc.push({ role, parts });
-        }
-        return acc;
-    }, []);
-
-    const firstUserIndex = mergedContents.findIndex(c => c.role === 'user');
-    
-    if (firstUserIndex === -1) {
-      console.error("Cannot generate response: No user message in the processed history.");
-      return;
-    }
-
-    const validHistory = mergedContents.slice(firstUserIndex);
-    const finalContents = validHistory.slice(-20);
-    // --- END: Robust History Preparation ---
+    const attachment = fileData ? { messageId: userMessage.id, inlineData: fileData } : undefined;
+    const finalContents = buildChatContents(fullHistory, attachment, MAX_HISTORY_CONTENTS, currentConversation.summary?.coveredUntil ?? 0);
 
     if (finalContents.length === 0) {
-        console.error("Cannot generate response: Final content history is empty after processing.");
+        console.error("Cannot generate response: No user message in the processed history.");
         return;
     }
 
     setIsTyping(prev => ({ ...prev, [character.id]: true }));
 
-    const response = await generateChatResponse(character, finalContents);
+    // Typing cadence: the time a bubble would take to type at the character's speed is the minimum gap before it appears.
+    const getTypingDelay = (messageText: string): number => {
+        const { min, max } = character.typingSpeedCpm;
+
+        // Use an ease-out curve for a more natural acceleration of typing speed
+        const easeOutQuad = (x: number): number => 1 - (1 - x) * (1 - x);
+        const affinityFactor = easeOutQuad(currentConversation.affinity / 100);
+
+        const baseTypingSpeed = min + (max - min) * affinityFactor;
+
+        // Make jitter proportional to the speed for a more natural feel
+        const jitterMagnitude = baseTypingSpeed * 0.1; // +/- 10%
+        const randomJitter = (Math.random() * 2 - 1) * jitterMagnitude;
+
+        const finalTypingSpeedCpm = baseTypingSpeed + randomJitter;
+
+        const delay = (messageText.length / (finalTypingSpeedCpm / 60)) * 1000 + 500;
+        return Math.max(500, Math.min(delay, 3000)); // Realistic delay
+    };
+
+    // Streamed bubbles are shown in order; each one after the first waits out its typing delay.
+    // The typing indicator stays on until the stream ends, since more bubbles may still arrive.
+    const messageBatchId = Date.now();
+    let lastShownAt = 0;
+    let displayQueue = Promise.resolve();
+    const shownTexts: string[] = [];
+    const showStreamedMessage = (messageText: string, index: number) => {
+        shownTexts[index] = messageText;
+        displayQueue = displayQueue.then(async () => {
+            if (index > 0) {
+                await sleep(Math.max(0, lastShownAt + getTypingDelay(messageText) - Date.now()));
+            }
+            addMessageToConversation(character.id, { id: `ai-${messageBatchId}-${index}`, text: messageText, sender: 'ai', timestamp: new Date() });
+            lastShownAt = Date.now();
+        });
+    };
+
+    const memories = await memoryService.recallMemories(character.id, fullHistory);
+    const response = await streamChatResponse(character, finalContents, showStreamedMessage, { conversation: currentConversation, memories });
+    await displayQueue;
 
     setIsTyping(prev => ({ ...prev, [character.id]: false }));
-    
-    if (response.hasLeft) {
-        setConversations(prev => ({ ...prev, [character.id]: { ...prev[character.id], chatActive: false } }));
-        return;
-    }
 
-    // Calculate new affinity value to use it for typing speed calculation
-    const currentConversationState = conversations[character.id];
-    const newAffinity = Math.max(0, Math.min(100, currentConversationState.affinity + response.affinityAdjustment));
+    const discardStreamedMessage = (index: number) => {
+        const id = `ai-${messageBatchId}-${index}`;
+        removeMessageFromConversation(character.id, id);
+        storageService.deleteMessage(character.id, id)
+            .catch(error => console.error("Failed to delete a superseded streamed reply", error));
+    };
+
+    if (response.isError) {
+        // A reply cut off by an error is dropped, so the partial bubbles can't pass for a finished turn.
+        shownTexts.forEach((_, index) => discardStreamedMessage(index));
+        for (const [index, messageText] of response.texts.entries()) {
+            addMessageToConversation(character.id, { id: `ai-${messageBatchId}-error-${index}`, text: messageText, sender: 'ai', timestamp: new Date(), isError: true });
+        }
+    } else {
+        // Bubbles shown mid-stream were cut before the whole reply was parsed; bring them in line with the final texts,
+        // which are what the variant below records.
+        shownTexts.forEach((text, index) => {
+            if (index >= response.texts.length) {
+                discardStreamedMessage(index);
+            } else if (text !== response.texts[index]) {
+                updateMessageInConversation(character.id, `ai-${messageBatchId}-${index}`, { text: response.texts[index] });
+            }
+        });
+    }
 
-    // Update state with affinity and mood adjustments using a functional update
-    // FIX: Made this state update safer by checking for the existence of the conversation first.
+    // Update state with affinity and mood adjustments using a functional update.
+    // The reply is also recorded as the turn's first variant, so a regenerated reply can take its adjustments back.
+    const anchorId = `ai-${messageBatchId}-0`;
+    const variant: ResponseVariant = { texts: response.texts, affinityAdjustment: response.affinityAdjustment, sexyMoodAdjustment: response.sexyMoodAdjustment };
     setConversations(prev => {
         const currentConvo = prev[character.id];
         if (!currentConvo) return prev;
         const updatedAffinity = Math.max(0, Math.min(100, currentConvo.affinity + response.affinityAdjustment));
         const updatedSexyMood = Math.max(0, Math.min(100, currentConvo.sexyMood + response.sexyMoodAdjustment));
-        return { ...prev, [character.id]: { ...currentConvo, affinity: updatedAffinity, sexyMood: updatedSexyMood } };
+        const messages = response.isError ? currentConvo.messages
+            : currentConvo.messages.map(msg => msg.id === anchorId ? { ...msg, variants: [variant], activeVariant: 0 } : msg);
+        return { ...prev, [character.id]: { ...currentConvo, messages, affinity: updatedAffinity, sexyMood: updatedSexyMood } };
     });
 
-    // Display AI text messages first
-    for (const [index, messageText] of response.texts.entries()) {
-        const messageId = `ai-${Date.now()}-${index}`;
-        const aiMessage: Message = { id: messageId, text: messageText, sender: 'ai', timestamp: new Date(), isError: response.isError };
-        addMessageToConversation(character.id, aiMessage);
-        
-        if (index < response.texts.length - 1) {
-            const { min, max } = character.typingSpeedCpm;
-            
-            // Use an ease-out curve for a more natural acceleration of typing speed
-            const easeOutQuad = (x: number): number => 1 - (1 - x) * (1 - x);
-            const affinityFactor = easeOutQuad(newAffinity / 100);
-            
-            const baseTypingSpeed = min + (max - min) * affinityFactor;
-            
-            // Make jitter proportional to the speed for a more natural feel
-            const jitterMagnitude = baseTypingSpeed * 0.1; // +/- 10%
-            const randomJitter = (Math.random() * 2 - 1) * jitterMagnitude;
-            
-            const finalTypingSpeedCpm = baseTypingSpeed + randomJitter;
+    await handleResponseCommands(character, response, fullHistory);
+  }, [conversations, addMessageToConversation, updateMessageInConversation, removeMessageFromConversation, handleResponseCommands]);
+
+  // Puts variant `index` in place of the latest turn's bubbles, trading the shown variant's stat adjustments for its own.
+  const showResponseVariant = useCallback((character: Character, conversation: Conversation, turn: variantService.LatestTurn, variants: ResponseVariant[], index: number) => {
+    const swapped = variantService.applyVariant(conversation.messages, turn, variants, index);
+    const stats = variantService.swapVariantStats(conversation, turn, variants[index]);
+    setConversations(prev => prev[character.id] ? { ...prev, [character.id]: { ...prev[character.id], ...stats, messages: swapped.messages } } : prev);
+    swapped.removedIds.forEach(id => storageService.deleteMessage(character.id, id)
+        .catch(error => console.error("Failed to delete a replaced reply", error)));
+  }, []);
 
-            const delay = (messageText.length / (finalTypingSpeedCpm / 60)) * 1000 + 500;
-            setIsTyping(prev => ({ ...prev, [character.id]: true }));
-            await sleep(Math.max(500, Math.min(delay, 3000))); // Realistic delay
-            setIsTyping(prev => ({ ...prev, [character.id]: false }));
+  // Runs a new reply for the latest turn and keeps it next to the earlier ones; the replaced reply's stat changes are taken back.
+  const handleRegenerateResponse = useCallback(async (character: Character) => {
+    const conversation = conversations[character.id];
+    if (!conversation?.chatActive || isTyping[character.id]) return;
+    const turn = variantService.findLatestTurn(conversation.messages);
+    if (!turn) return;
+
+    const history = conversation.messages.slice(0, conversation.messages.indexOf(turn.anchor));
+    const lastUserMessage = history[history.length - 1];
+    let attachment;
+    const photoUrl = lastUserMessage.imageUrls?.[lastUserMessage.imageUrls.length - 1];
+    if (photoUrl) {
+        try {
+            const photo = await (await fetch(photoUrl)).blob();
+            attachment = { messageId: lastUserMessage.id, inlineData: { mimeType: photo.type, data: await fileToBase64(photo) } };
+        } catch (error) {
+            console.error("Failed to read the photo for regeneration", error);
         }
     }
-    
-    // Then, handle automatic image generation
-    if (response.imageGenerationPrompt) {
-        const loadingText = '사진을 만드는 중...';
-        const loadingMessageId = `loading-${Date.now()}`;
-        
-        addMessageToConversation(character.id, { id: loadingMessageId, text: '', sender: 'ai', timestamp: new Date(), isLoading: true, loadingText });
 
-        const result = await mediaService.generateImage(response.imageGenerationPrompt, 'Photorealistic');
-        
-        if (result.imageUrl) {
-             updateMessageInConversation(character.id, loadingMessageId, { isLoading: false, imageUrls: [result.imageUrl], loadingText: '', text: result.error ? `이미지를 생성하지 못했어요: ${result.error}` : '', isError: !!result.error });
-        } else {
-             updateMessageInConversation(character.id, loadingMessageId, { isLoading: false, text: result.error || "알 수 없는 오류로 미디어를 생성하지 못했습니다.", loadingText: '', isError: true, });
+    setIsTyping(prev => ({ ...prev, [character.id]: true }));
+    let response: GeminiResponse;
+    try {
+        const memories = await memoryService.recallMemories(character.id, history);
+        response = await generateChatResponse(character, buildChatContents(history, attachment, MAX_HISTORY_CONTENTS, conversation.summary?.coveredUntil ?? 0), { conversation, memories });
+    } finally {
+        setIsTyping(prev => ({ ...prev, [character.id]: false }));
+    }
+    if (response.isError || response.texts.length === 0) {
+        alert(`답장을 다시 만들지 못했어요. 😢\n${response.texts.join('\n')}`);
+        return;
+    }
+
+    // Dropped if the conversation moved on while the reply was generated.
+    const current = conversationsRef.current[character.id];
+    const currentTurn = current && variantService.findLatestTurn(current.messages);
+    if (!current || currentTurn?.anchor.id !== turn.anchor.id) return;
+    const variant: ResponseVariant = { texts: response.texts, affinityAdjustment: response.affinityAdjustment, sexyMoodAdjustment: response.sexyMoodAdjustment };
+    showResponseVariant(character, current, currentTurn, [...currentTurn.variants, variant], currentTurn.variants.length);
+
+    await handleResponseCommands(character, response, history);
+  }, [conversations, isTyping, showResponseVariant, handleResponseCommands]);
+
+  const handleSelectResponseVariant = useCallback((character: Character, index: number) => {
+    const conversation = conversations[character.id];
+    const turn = conversation && variantService.findLatestTurn(conversation.messages);
+    if (!conversation || !turn?.variants[index] || index === turn.activeVariant) return;
+    showResponseVariant(character, conversation, turn, turn.variants, index);
+  }, [conversations, showResponseVariant]);
+
+  // Sets the messages from `messageId` on aside as a branch and rolls the stats back to when that message was sent.
+  const forkConversation = useCallback(async (character: Character, messageId: string): Promise<Conversation | null> => {
+    const conversation = conversations[character.id];
+    const split = conversation && branchService.splitAtMessage(conversation.messages, messageId);
+    if (!conversation || !split) return null;
+
+    const branch = branchService.describeBranch(`branch-${Date.now()}`, split.forkAfterId, split.tail, conversation);
+    split.tail.filter(msg => msg.isLoading).forEach(msg => imageJobQueue.cancel(msg.id));
+    await storageService.archiveBranchMessages(character.id, branch.id, split.tail);
+
+    const stats = split.tail[0].stats ?? conversation;
+    const changes = {
+        messages: split.prefix,
+        affinity: stats.affinity,
+        sexyMood: stats.sexyMood,
+        chatActive: true,
+        branches: [...(conversation.branches ?? []), branch],
+    };
+    setConversations(prev => prev[character.id] ? { ...prev, [character.id]: { ...prev[character.id], ...changes } } : prev);
+    return { ...conversation, ...changes };
+  }, [conversations]);
+
+  const handleEditUserMessage = useCallback(async (character: Character, messageId: string, text: string) => {
+    const original = conversations[character.id]?.messages.find(msg => msg.id === messageId);
+    if (!original || original.sender !== 'user' || !text.trim() || isTyping[character.id]) return;
+
+    // The photo goes out again with the edited text.
+    let attachedFile: File | undefined;
+    const photoUrl = original.imageUrls?.[original.imageUrls.length - 1];
+    if (photoUrl) {
+        try {
+            const photo = await (await fetch(photoUrl)).blob();
+            attachedFile = new File([photo], 'photo', { type: photo.type });
+        } catch (error) {
+            console.error("Failed to read the photo of the edited message", error);
         }
     }
-  }, [conversations, addMessageToConversation, updateMessageInConversation]);
-  
-  const handleResetConversation = useCallback((character: Character) => {
+
+    let forked: Conversation | null;
+    try {
+        forked = await forkConversation(character, messageId);
+    } catch {
+        alert("메시지를 수정하지 못했어요. 😢");
+        return;
+    }
+    if (forked) await handleSendMessage(character, text, attachedFile, original.threadParentId, forked);
+  }, [conversations, isTyping, forkConversation, handleSendMessage]);
+
+  const handleDeleteUserMessage = useCallback(async (character: Character, messageId: string) => {
+    if (isTyping[character.id]) return;
+    if (!window.confirm("이 메시지부터 이후 대화를 지울까요? 지운 대화는 분기 이동 버튼으로 다시 볼 수 있어요.")) return;
+    try {
+        await forkConversation(character, messageId);
+    } catch {
+        alert("메시지를 삭제하지 못했어요. 😢");
+    }
+  }, [isTyping, forkConversation]);
+
+  // Shows another branch from its fork point on, setting the current continuation aside in its place.
+  const handleSwitchBranch = useCallback(async (character: Character, branchId: string) => {
+    const conversation = conversations[character.id];
+    const target = conversation?.branches?.find(branch => branch.id === branchId);
+    if (!conversation || !target || isTyping[character.id]) return;
+    const forkIndex = target.forkAfterId === null ? -1 : conversation.messages.findIndex(msg => msg.id === target.forkAfterId);
+    if (target.forkAfterId !== null && forkIndex === -1) return;
+
+    const prefix = conversation.messages.slice(0, forkIndex + 1);
+    const tail = conversation.messages.slice(forkIndex + 1);
+    const branches = (conversation.branches ?? []).filter(branch => branch.id !== branchId);
+    const showBranch = (messages: Message[], { affinity, sexyMood, chatActive }: Pick<Conversation, 'affinity' | 'sexyMood' | 'chatActive'>, branchList: typeof branches) =>
+        setConversations(prev => prev[character.id] ? { ...prev, [character.id]: { ...prev[character.id], affinity, sexyMood, chatActive, messages, branches: branchList } } : prev);
+
+    try {
+        if (tail.length > 0) {
+            const archived = branchService.describeBranch(`branch-${Date.now()}`, target.forkAfterId, tail, conversation);
+            tail.filter(msg => msg.isLoading).forEach(msg => imageJobQueue.cancel(msg.id));
+            await storageService.archiveBranchMessages(character.id, archived.id, tail);
+            branches.push(archived);
+        }
+    } catch {
+        alert("대화 분기를 바꾸지 못했어요. 😢");
+        return;
+    }
+
+    try {
+        const restored = await storageService.restoreBranchMessages(character.id, branchId);
+        restored.forEach(msg => persistedMessagesRef.current.add(msg));
+        showBranch([...prefix, ...restored], target, branches);
+    } catch {
+        // The current continuation is already set aside; show the fork point so the state matches storage.
+        showBranch(prefix, conversation, [...branches, target]);
+        alert("대화 분기를 불러오지 못했어요. 😢");
+    }
+  }, [conversations, isTyping]);
+
+  // A finished voice call's transcript joins the text conversation, so the character remembers what was said.
+  const handleVoiceCallEnded = useCallback((character: Character, call: voiceCallService.VoiceCallTranscript) => {
+    const callMessages = voiceCallService.buildVoiceCallMessages(call);
+    if (callMessages.length === 0) return;
+    setConversations(prev => {
+        const conversation = prev[character.id];
+        if (!conversation) return prev;
+        return { ...prev, [character.id]: { ...conversation, messages: [...conversation.messages, ...callMessages] } };
+    });
+  }, []);
+
+  // Voice calls move the stats like text turns do, clamped the same way.
+  const handleVoiceRelationshipChange = useCallback((character: Character, adjustment: voiceCallService.RelationshipAdjustment) => {
+    setConversations(prev => {
+        const conversation = prev[character.id];
+        if (!conversation) return prev;
+        return { ...prev, [character.id]: {
+            ...conversation,
+            affinity: Math.max(0, Math.min(100, conversation.affinity + adjustment.affinityAdjustment)),
+            sexyMood: Math.max(0, Math.min(100, conversation.sexyMood + adjustment.sexyMoodAdjustment)),
+        } };
+    });
+  }, []);
+
+  // Hanging up with `leaveCall` ends the chat the same way LEAVE_CHAT does.
+  const handleVoiceCallLeft = useCallback((character: Character) => {
+    setConversations(prev => prev[character.id] ? { ...prev, [character.id]: { ...prev[character.id], chatActive: false } } : prev);
+  }, []);
+
+  const refreshSummary = useCallback(async (character: Character, conversation: Conversation) => {
+    if (summarizingRef.current.has(character.id)) return;
+    summarizingRef.current.add(character.id);
+    try {
+        const summary = await summaryService.refreshConversationSummary(character, conversation);
+        if (!summary) return;
+        setConversations(prev => {
+            const current = prev[character.id];
+            // Skip if the conversation was reset or the summary was edited while the request ran.
+            if (!current || current.summary?.updatedAt !== conversation.summary?.updatedAt) return prev;
+            return { ...prev, [character.id]: { ...current, summary } };
+        });
+    } finally {
+        summarizingRef.current.delete(character.id);
+    }
+  }, []);
+
+  // Folds history that has left the model's context window into the rolling summary.
+  useEffect(() => {
+    if (!genderPreference || loadedProfileRef.current !== genderPreference) return;
+    for (const character of characters) {
+        const conversation = conversations[character.id];
+        if (!conversation || isTyping[character.id] || summarizingRef.current.has(character.id)) continue;
+        if ((summaryRetryAfterRef.current.get(character.id) ?? 0) > Date.now()) continue;
+        if (!summaryService.needsSummaryRefresh(conversation)) continue;
+        refreshSummary(character, conversation).catch(error => {
+            console.error(`Failed to refresh the conversation summary for ${character.name}`, error);
+            summaryRetryAfterRef.current.set(character.id, Date.now() + SUMMARY_RETRY_DELAY_MS);
+        });
+    }
+  }, [conversations, characters, isTyping, genderPreference, refreshSummary]);
+
+  const handleRefreshSummary = useCallback(async (character: Character) => {
+    const conversation = conversations[character.id];
+    if (!conversation) return;
+    if (summarizingRef.current.has(character.id)) {
+        alert("요약을 만드는 중이에요. 잠시 후 다시 확인해주세요.");
+        return;
+    }
+    if (summaryService.selectMessagesToSummarize(conversation.messages, conversation.summary).length === 0 && !conversation.hasMoreHistory) {
+        alert("아직 요약할 만큼 대화가 쌓이지 않았어요. 최근 대화는 요약 없이도 기억해요.");
+        return;
+    }
+    try {
+        await refreshSummary(character, conversation);
+    } catch (error) {
+        console.error("Failed to refresh the conversation summary", error);
+        alert(`대화를 요약하지 못했어요. 😢\n${error instanceof Error ? error.message : ''}`);
+    }
+  }, [conversations, refreshSummary]);
+
+  const handleUpdateSummary = useCallback((character: Character, text: string) => {
+    setConversations(prev => {
+        const current = prev[character.id];
+        if (!current) return prev;
+        // The covered range is kept, so a refresh folds only newer messages into the edited text.
+        const summary = { text, coveredUntil: current.summary?.coveredUntil ?? 0, updatedAt: Date.now() };
+        return { ...prev, [character.id]: { ...current, summary } };
+    });
+  }, []);
+
+  const handleResetConversation = useCallback(async (character: Character) => {
     if (window.confirm(`${character.name}님과의 대화 내용을 모두 지우고 처음부터 다시 시작하시겠습니까?`)) {
+        if (genderPreference) imageJobQueue.cancelCharacterJobs(genderPreference, character.id);
+        await storageService.deleteMessages(character.id);
+        await storageService.deleteMemories(character.id);
+        await storageService.deleteBranches(character.id);
         setConversations(prev => ({
             ...prev,
             [character.id]: {
@@ -544,7 +1049,7 @@ const App: React.FC = () => {
             }
         }));
     }
-  }, []);
+  }, [genderPreference]);
   
   const handleLeaveChat = useCallback(async (character: Character) => {
       if (window.confirm(`${character.name}님과의 대화방을 정말로 나가시겠습니까? 이 캐릭터는 목록에서 사라지며, 대화 내용은 모두 삭제됩니다.`)) {
@@ -558,13 +1063,96 @@ const App: React.FC = () => {
           setFavoriteCharacterIds(prev => prev.filter(id => id !== character.id));
           
           if(genderPreference) {
-            const avatarKey = `${AVATAR_KEY_PREFIX}${genderPreference}_${character.id}`;
+            imageJobQueue.cancelCharacterJobs(genderPreference, character.id);
+            const avatarKey = storageService.getAvatarKey(genderPreference, character.id);
             await storageService.deleteAvatar(avatarKey);
+            await referenceImageService.clearReferenceImage(genderPreference, character.id);
             await storageService.deleteCharacter(character.id);
           }
+          await storageService.deleteMessages(character.id);
+          await storageService.deleteMemories(character.id);
+          await storageService.deleteBranches(character.id);
       }
   }, [genderPreference]);
 
+  const handlePinReferenceImage = useCallback(async (character: Character, imageUrl: string) => {
+      if (!genderPreference) return;
+      if (!window.confirm(`이 사진을 ${character.name}님의 얼굴 기준 사진으로 지정할까요?\n앞으로 ${character.name}님이 보내는 사진은 이 얼굴을 기준으로 만들어져요.`)) return;
+      try {
+          await referenceImageService.pinReferenceImage(genderPreference, character.id, imageUrl);
+      } catch (error) {
+          console.error("Failed to pin the face reference image", error);
+          alert("얼굴 기준 사진을 저장하지 못했어요. 😢");
+      }
+  }, [genderPreference]);
+
+  const handleExportTranscript = useCallback(async (character: Character, format: transcriptService.TranscriptFormat) => {
+      const conversation = conversations[character.id];
+      if (!conversation) return;
+      try {
+          const transcript = await transcriptService.exportTranscript(character, conversation, format);
+          downloadBlob(transcript, `${character.name}-${fileDateStamp()}.${transcriptService.TRANSCRIPT_FILE_EXTENSIONS[format]}`);
+      } catch (error) {
+          console.error("Failed to export transcript", error);
+          alert(`대화 내용을 내보내지 못했어요. 😢\n${error instanceof Error ? error.message : ''}`);
+      }
+  }, [conversations]);
+
+  // Loads the previous page, or with `untilMessageId`, every page back to that message.
+  const handleLoadOlderMessages = useCallback(async (character: Character, untilMessageId?: string) => {
+      const conversation = conversations[character.id];
+      if (!conversation?.hasMoreHistory || conversation.messages.length === 0) return;
+      if (untilMessageId && conversation.messages.some(msg => msg.id === untilMessageId)) return;
+
+      const older: Message[] = [];
+      let hasMore = true;
+      do {
+          const page = await storageService.getMessagesPage(character.id, older[0] ?? conversation.messages[0]);
+          older.unshift(...page.messages);
+          hasMore = page.hasMore;
+      } while (untilMessageId && hasMore && !older.some(msg => msg.id === untilMessageId));
+
+      older.forEach(msg => persistedMessagesRef.current.add(msg));
+      setConversations(prev => {
+          const current = prev[character.id];
+          if (!current) return prev;
+          return {
+              ...prev,
+              [character.id]: {
+                  ...current,
+                  messages: [...older, ...current.messages],
+                  hasMoreHistory: hasMore,
+              },
+          };
+      });
+  }, [conversations]);
+
+  const handleSetAvatarFromImage = useCallback(async (character: Character, imageUrl: string) => {
+      if (!genderPreference || !window.confirm(`이 사진을 ${character.name}님의 프로필 사진으로 설정할까요?`)) return;
+      try {
+          const key = storageService.getAvatarKey(genderPreference, character.id);
+          await storageService.saveAvatar(key, imageUrl);
+          // The gallery revokes its image URLs when it closes, so the avatar shows its own copy of the stored image.
+          const avatarUrl = (await storageService.getAvatar(key)) ?? imageUrl;
+          setCharacters(prev => prev.map(c => c.id === character.id ? { ...c, avatarUrl } : c));
+      } catch (error) {
+          console.error("Failed to set the avatar from the gallery", error);
+          alert("프로필 사진을 바꾸지 못했어요. 😢");
+      }
+  }, [genderPreference]);
+
+  const handleDeleteMediaMessage = useCallback(async (character: Character, messageId: string): Promise<boolean> => {
+      if (!window.confirm("이 사진을 삭제할까요? 대화에서도 사라지며 되돌릴 수 없어요.")) return false;
+      try {
+          await storageService.deleteMessage(character.id, messageId);
+      } catch {
+          alert("사진을 삭제하지 못했어요. 😢");
+          return false;
+      }
+      removeMessageFromConversation(character.id, messageId);
+      return true;
+  }, [removeMessageFromConversation]);
+
   // FIX: Made this state update safer by checking for the existence of the conversation first.
   const handleToggleAdminMode = useCallback(() => setIsAdminMode(prev => !prev), []);
   const handleWarnCharacter = useCallback((characterId: string) => {
@@ -615,6 +1203,10 @@ const App: React.FC = () => {
           onToggleAdminMode={handleToggleAdminMode}
           onWarnCharacter={handleWarnCharacter}
           onLeaveChat={handleLeaveChat}
+          onExportBackup={handleExportBackup}
+          onImportBackup={handleImportBackup}
+          onImportCharacterCard={handleImportCharacterCard}
+          onOpenCharacterEditor={handleOpenCharacterEditor}
         />
       )}
       {showChatWindow && (
@@ -624,6 +1216,25 @@ const App: React.FC = () => {
           onSendMessage={handleSendMessage}
           isTyping={selectedCharacterId ? !!isTyping[selectedCharacterId] : false}
           onResetConversation={handleResetConversation}
+          onLoadOlderMessages={handleLoadOlderMessages}
+          onExportTranscript={handleExportTranscript}
+          onExportCharacterCard={handleExportCharacterCard}
+          onEditCharacter={handleOpenCharacterEditor}
+          onRefreshSummary={handleRefreshSummary}
+          onUpdateSummary={handleUpdateSummary}
+          onPinReferenceImage={handlePinReferenceImage}
+          onGenerateImage={handleGenerateImage}
+          onSetAvatarFromImage={handleSetAvatarFromImage}
+          onDeleteMediaMessage={handleDeleteMediaMessage}
+          onCancelImageJob={handleCancelImageJob}
+          onRegenerateResponse={handleRegenerateResponse}
+          onSelectResponseVariant={handleSelectResponseVariant}
+          onEditUserMessage={handleEditUserMessage}
+          onDeleteUserMessage={handleDeleteUserMessage}
+          onSwitchBranch={handleSwitchBranch}
+          onVoiceCallEnded={handleVoiceCallEnded}
+          onVoiceRelationshipChange={handleVoiceRelationshipChange}
+          onVoiceCallLeft={handleVoiceCallLeft}
           onLeaveChat={handleLeaveChat}
           onLogout={handleLogout}
           onBack={isMobileView ? handleBackToList : undefined}
@@ -631,6 +1242,16 @@ const App: React.FC = () => {
           hasUnreadFromOthers={hasUnreadFromOthers}
         />
       )}
+      <CharacterEditorModal
+          isOpen={!!editorState}
+          gender={genderPreference}
+          initialCharacter={editorState?.character ?? null}
+          isEditingExisting={editorState?.isEditingExisting ?? false}
+          existingCharacters={characters}
+          onClose={handleCloseCharacterEditor}
+          onSave={handleSaveCharacter}
+          onGenerateDraft={handleGenerateCharacterDraft}
+      />
       {enlargedImageUrl && (
           <ImageViewerModal imageUrl={enlargedImageUrl} onClose={() => setEnlargedImageUrl(null)} />
       )}
@@ -0,0 +1,359 @@
+import React, { useState, useEffect, useRef } from 'react';
+import type { Character, CharacterCapability, Message, UserGender } from '../types';
+import { generateChatResponse } from '../services/geminiService';
+import { buildChatContents } from '../services/chatHistory';
+import { getCharacterProblems } from '../services/characterCardService';
+import { urlToDataUrl } from '../services/downloadService';
+
+interface CharacterEditorModalProps {
+  isOpen: boolean;
+  gender: UserGender;
+  /** Character being edited; `null` starts from a blank draft. */
+  initialCharacter: Character | null;
+  /** When true the id is locked and saving updates the existing character instead of adding one. */
+  isEditingExisting: boolean;
+  existingCharacters: Character[];
+  onClose: () => void;
+  onSave: (character: Character) => Promise<void>;
+  onGenerateDraft: () => Promise<Character>;
+}
+
+type AmbientSound = NonNullable<Character['ambientSounds']>[string];
+
+const VOICE_NAMES = ['Zephyr', 'Kore', 'Charon', 'Fenrir', 'Puck'];
+const CAPABILITY_LABELS: Record<CharacterCapability, string> = {
+  image_generate: '사진 보내기',
+  image_edit: '사진 편집',
+};
+
+const createBlankCharacter = (gender: UserGender): Character => ({
+  id: '',
+  name: '',
+  age: 24,
+  avatarUrl: '',
+  systemPrompt: '',
+  initialMessage: '',
+  initialAffinity: 30,
+  initialSexyMood: 10,
+  thinkingTimeMs: { min: 800, max: 2000 },
+  typingSpeedCpm: { min: 250, max: 450 },
+  mbti: '',
+  bloodType: '',
+  capabilities: ['image_generate'],
+  voiceName: gender === 'female' ? 'Zephyr' : 'Charon',
+});
+
+const inputClass = "w-full bg-gray-900 border border-gray-700 rounded-lg px-3 py-2 text-white text-sm focus:outline-none focus:ring-2 focus:ring-blue-500";
+const labelClass = "block text-xs font-medium text-gray-400 mb-1";
+
+const Field: React.FC<{ label: string; children: React.ReactNode; className?: string }> = ({ label, children, className }) => (
+  <div className={className}>
+    <label className={labelClass}>{label}</label>
+    {children}
+  </div>
+);
+
+const RangeField: React.FC<{ label: string; value: { min: number; max: number }; step: number; onChange: (value: { min: number; max: number }) => void }> = ({ label, value, step, onChange }) => (
+  <Field label={label}>
+    <div className="flex items-center space-x-2">
+      <input type="number" step={step} value={value.min} onChange={e => onChange({ ...value, min: Number(e.target.value) })} className={inputClass} />
+      <span className="text-gray-500">~</span>
+      <input type="number" step={step} value={value.max} onChange={e => onChange({ ...value, max: Number(e.target.value) })} className={inputClass} />
+    </div>
+  </Field>
+);
+
+const CharacterEditorModal: React.FC<CharacterEditorModalProps> = ({ isOpen, gender, initialCharacter, isEditingExisting, existingCharacters, onClose, onSave, onGenerateDraft }) => {
+  const [draft, setDraft] = useState<Character>(() => initialCharacter ?? createBlankCharacter(gender));
+  const [isGeneratingDraft, setIsGeneratingDraft] = useState(false);
+  const [isSaving, setIsSaving] = useState(false);
+  const [previewMessages, setPreviewMessages] = useState<Message[]>([]);
+  const [previewStats, setPreviewStats] = useState({ affinity: 0, sexyMood: 0 });
+  const [previewInput, setPreviewInput] = useState('');
+  const [isPreviewTyping, setIsPreviewTyping] = useState(false);
+  const avatarInputRef = useRef<HTMLInputElement>(null);
+  const previewEndRef = useRef<HTMLDivElement>(null);
+
+  const resetPreview = (character: Character) => {
+    setPreviewMessages(character.initialMessage
+      ? [{ id: 'preview-initial', text: character.initialMessage, sender: 'ai', timestamp: new Date() }]
+      : []);
+    setPreviewStats({ affinity: character.initialAffinity, sexyMood: character.initialSexyMood });
+  };
+
+  useEffect(() => {
+    if (!isOpen) return;
+    const start = initialCharacter ?? createBlankCharacter(gender);
+    setDraft(start);
+    resetPreview(start);
+  }, [isOpen, initialCharacter, gender]);
+
+  useEffect(() => {
+    previewEndRef.current?.scrollIntoView({ behavior: 'smooth' });
+  }, [previewMessages, isPreviewTyping]);
+
+  useEffect(() => {
+    const handleEscape = (event: KeyboardEvent) => {
+      if (event.key === 'Escape') onClose();
+    };
+    if (isOpen) window.addEventListener('keydown', handleEscape);
+    return () => window.removeEventListener('keydown', handleEscape);
+  }, [isOpen, onClose]);
+
+  if (!isOpen) return null;
+
+  const update = <K extends keyof Character>(field: K, value: Character[K]) => setDraft(prev => ({ ...prev, [field]: value }));
+
+  // Hand edits replace the sectioned prompt, so the sections no longer describe what is sent.
+  const handleSystemPromptChange = (systemPrompt: string) =>
+    setDraft(prev => ({ ...prev, systemPrompt, promptSections: undefined }));
+
+  const idTaken = !isEditingExisting && existingCharacters.some(c => c.id === draft.id);
+  const problems = [...getCharacterProblems(draft), ...(idTaken ? ['이미 사용 중인 id'] : [])];
+
+  const handleStartFrom = async (source: string) => {
+    if (source === 'blank') {
+      const blank = createBlankCharacter(gender);
+      setDraft(blank);
+      resetPreview(blank);
+    } else if (source === 'generate') {
+      setIsGeneratingDraft(true);
+      try {
+        const generated = await onGenerateDraft();
+        setDraft(generated);
+        resetPreview(generated);
+      } catch (error) {
+        console.error("Failed to generate character draft", error);
+        alert(`초안을 만들지 못했어요. 😢\n${error instanceof Error ? error.message : ''}`);
+      } finally {
+        setIsGeneratingDraft(false);
+      }
+    } else {
+      const base = existingCharacters.find(c => c.id === source);
+      if (!base) return;
+      const copy = { ...base, id: `${base.id}_copy`, name: `${base.name} (복사본)` };
+      setDraft(copy);
+      resetPreview(copy);
+    }
+  };
+
+  const handleAvatarChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    const fileUrl = URL.createObjectURL(file);
+    try {
+      update('avatarUrl', await urlToDataUrl(fileUrl));
+    } finally {
+      URL.revokeObjectURL(fileUrl);
+    }
+  };
+
+  const toggleCapability = (capability: CharacterCapability) => {
+    const current = draft.capabilities ?? [];
+    update('capabilities', current.includes(capability) ? current.filter(c => c !== capability) : [...current, capability]);
+  };
+
+  // Ambient sounds are edited as a list so keys can be renamed without losing their position.
+  const soundEntries: [string, AmbientSound][] = Object.entries(draft.ambientSounds ?? {});
+  const setSoundEntries = (entries: [string, AmbientSound][]) => {
+    const sounds = Object.fromEntries(entries);
+    setDraft(prev => ({
+      ...prev,
+      ambientSounds: entries.length > 0 ? sounds : undefined,
+      defaultAmbientSound: prev.defaultAmbientSound && prev.defaultAmbientSound in sounds ? prev.defaultAmbientSound : undefined,
+    }));
+  };
+
+  const handlePreviewSend = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const text = previewInput.trim();
+    if (!text || isPreviewTyping) return;
+    const userMessage: Message = { id: `preview-user-${Date.now()}`, text, sender: 'user', timestamp: new Date() };
+    const history = [...previewMessages, userMessage];
+    setPreviewMessages(history);
+    setPreviewInput('');
+    setIsPreviewTyping(true);
+    try {
+      const response = await generateChatResponse(draft, buildChatContents(history));
+      const replies: Message[] = response.texts.map((reply, i) => ({
+        id: `preview-ai-${Date.now()}-${i}`, text: reply, sender: 'ai', timestamp: new Date(), isError: response.isError,
+      }));
+      const notes: string[] = [];
+      if (response.imageGenerationPrompt) notes.push(`📷 GENERATE_IMAGE: ${response.imageGenerationPrompt}`);
+      if (response.editImage) notes.push(`🖌️ EDIT_IMAGE${response.editImagePrompt ? `: ${response.editImagePrompt}` : ''}`);
+      response.memories.forEach(fact => notes.push(`🧠 REMEMBER: ${fact}`));
+      if (response.hasLeft) notes.push('🚪 LEAVE_CHAT');
+      notes.forEach((note, i) => replies.push({ id: `preview-note-${Date.now()}-${i}`, text: note, sender: 'ai', timestamp: new Date(), isError: true }));
+      setPreviewMessages(prev => [...prev, ...replies]);
+      setPreviewStats(prev => ({
+        affinity: Math.max(0, Math.min(100, prev.affinity + response.affinityAdjustment)),
+        sexyMood: Math.max(0, Math.min(100, prev.sexyMood + response.sexyMoodAdjustment)),
+      }));
+    } finally {
+      setIsPreviewTyping(false);
+    }
+  };
+
+  const handleSave = async () => {
+    if (problems.length > 0 || isSaving) return;
+    setIsSaving(true);
+    try {
+      await onSave(draft);
+    } catch (error) {
+      console.error("Failed to save character", error);
+      alert(`캐릭터를 저장하지 못했어요. 😢\n${error instanceof Error ? error.message : ''}`);
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-75 flex items-center justify-center z-50 animate-fade-in" style={{ animationDuration: '0.3s' }} onClick={onClose}>
+      <div className="bg-gray-800 border border-gray-700 rounded-2xl shadow-xl w-full max-w-6xl h-[90vh] flex flex-col text-white" onClick={(e) => e.stopPropagation()}>
+        <div className="flex justify-between items-center p-4 border-b border-gray-700">
+          <h2 className="text-xl font-bold">{isEditingExisting ? `${initialCharacter?.name} 편집` : '캐릭터 만들기'}</h2>
+          <div className="flex items-center space-x-2">
+            {!isEditingExisting && (
+              <select onChange={e => { handleStartFrom(e.target.value); e.target.value = ''; }} value="" disabled={isGeneratingDraft} className="bg-gray-900 border border-gray-700 rounded-lg px-3 py-2 text-sm">
+                <option value="" disabled>{isGeneratingDraft ? '초안 생성 중...' : '시작하기...'}</option>
+                <option value="blank">빈 캐릭터</option>
+                <option value="generate">AI 초안 생성</option>
+                {existingCharacters.map(c => <option key={c.id} value={c.id}>{c.name} 복사</option>)}
+              </select>
+            )}
+            <button onClick={onClose} className="text-gray-400 hover:text-white text-2xl w-8 h-8">&times;</button>
+          </div>
+        </div>
+
+        <div className="flex flex-grow overflow-hidden">
+          {/* --- Form --- */}
+          <div className="w-full md:w-3/5 overflow-y-auto p-4 space-y-4">
+            <div className="flex items-center space-x-4">
+              <button type="button" onClick={() => avatarInputRef.current?.click()} className="w-20 h-20 rounded-full bg-gray-700 flex-shrink-0 overflow-hidden flex items-center justify-center hover:opacity-80" title="아바타 변경">
+                {draft.avatarUrl ? <img src={draft.avatarUrl} alt="avatar" className="w-full h-full object-cover" /> : <i className="fas fa-camera text-2xl text-gray-400"></i>}
+              </button>
+              <input type="file" ref={avatarInputRef} onChange={handleAvatarChange} accept="image/*" className="hidden" />
+              <div className="grid grid-cols-2 gap-3 flex-grow">
+                <Field label="id">
+                  <input value={draft.id} onChange={e => update('id', e.target.value)} readOnly={isEditingExisting} className={`${inputClass} ${isEditingExisting ? 'opacity-60' : ''}`} />
+                </Field>
+                <Field label="이름">
+                  <input value={draft.name} onChange={e => update('name', e.target.value)} className={inputClass} />
+                </Field>
+              </div>
+            </div>
+
+            <div className="grid grid-cols-4 gap-3">
+              <Field label="나이"><input type="number" value={draft.age} onChange={e => update('age', Number(e.target.value))} className={inputClass} /></Field>
+              <Field label="MBTI"><input value={draft.mbti} onChange={e => update('mbti', e.target.value.toUpperCase())} className={inputClass} /></Field>
+              <Field label="혈액형"><input value={draft.bloodType} onChange={e => update('bloodType', e.target.value)} className={inputClass} /></Field>
+              <Field label="목소리">
+                <select value={draft.voiceName} onChange={e => update('voiceName', e.target.value)} className={inputClass}>
+                  {VOICE_NAMES.map(v => <option key={v} value={v}>{v}</option>)}
+                </select>
+              </Field>
+            </div>
+
+            <Field label="집 주소">
+              <input value={draft.homeAddress ?? ''} onChange={e => update('homeAddress', e.target.value || undefined)} className={inputClass} />
+            </Field>
+
+            <Field label="첫 메시지">
+              <textarea value={draft.initialMessage} onChange={e => update('initialMessage', e.target.value)} rows={2} className={inputClass} />
+            </Field>
+
+            <Field label="시스템 프롬프트">
+              <textarea value={draft.systemPrompt} onChange={e => handleSystemPromptChange(e.target.value)} rows={14} className={`${inputClass} font-mono text-xs`} />
+              {draft.promptSections && (
+                <p className="text-xs text-gray-500 mt-1">섹션으로 구성된 프롬프트예요. 직접 수정하면 이 텍스트가 그대로 사용되고, 음성 통화용 프롬프트도 이 텍스트에서 만들어져요.</p>
+              )}
+            </Field>
+
+            <div className="grid grid-cols-2 gap-3">
+              <Field label={`초기 친밀도: ${draft.initialAffinity}`}>
+                <input type="range" min={0} max={100} value={draft.initialAffinity} onChange={e => update('initialAffinity', Number(e.target.value))} className="w-full" />
+              </Field>
+              <Field label={`초기 섹시 무드: ${draft.initialSexyMood}`}>
+                <input type="range" min={0} max={100} value={draft.initialSexyMood} onChange={e => update('initialSexyMood', Number(e.target.value))} className="w-full" />
+              </Field>
+              <RangeField label="생각하는 시간 (ms)" step={100} value={draft.thinkingTimeMs} onChange={v => update('thinkingTimeMs', v)} />
+              <RangeField label="타이핑 속도 (CPM)" step={10} value={draft.typingSpeedCpm} onChange={v => update('typingSpeedCpm', v)} />
+            </div>
+
+            <div className="grid grid-cols-2 gap-3">
+              <Field label="기능">
+                <div className="flex space-x-4 text-sm">
+                  {(Object.keys(CAPABILITY_LABELS) as CharacterCapability[]).map(cap => (
+                    <label key={cap} className="flex items-center space-x-1">
+                      <input type="checkbox" checked={draft.capabilities?.includes(cap) ?? false} onChange={() => toggleCapability(cap)} />
+                      <span>{CAPABILITY_LABELS[cap]}</span>
+                    </label>
+                  ))}
+                </div>
+              </Field>
+              <Field label="응답 형식">
+                <select value={draft.responseFormat ?? 'structured'} onChange={e => update('responseFormat', e.target.value as Character['responseFormat'])} className={inputClass}>
+                  <option value="structured">structured (JSON)</option>
+                  <option value="legacy">legacy (THOUGHT/MESSAGE)</option>
+                </select>
+              </Field>
+            </div>
+
+            <Field label="배경 소리">
+              <div className="space-y-2">
+                {soundEntries.map(([key, sound], i) => (
+                  <div key={i} className="flex items-center space-x-2">
+                    <input type="radio" name="defaultAmbientSound" checked={draft.defaultAmbientSound === key} onChange={() => update('defaultAmbientSound', key)} title="기본 배경 소리" />
+                    <input value={key} placeholder="key" onChange={e => setSoundEntries(soundEntries.map((entry, j) => j === i ? [e.target.value, entry[1]] : entry))} className={`${inputClass} w-28`} />
+                    <input value={sound.description} placeholder="설명" onChange={e => setSoundEntries(soundEntries.map((entry, j) => j === i ? [entry[0], { ...entry[1], description: e.target.value }] : entry))} className={`${inputClass} w-40`} />
+                    <input value={sound.url} placeholder="https://...mp3" onChange={e => setSoundEntries(soundEntries.map((entry, j) => j === i ? [entry[0], { ...entry[1], url: e.target.value }] : entry))} className={inputClass} />
+                    <button type="button" onClick={() => setSoundEntries(soundEntries.filter((_, j) => j !== i))} className="text-gray-400 hover:text-red-400 px-2"><i className="fas fa-times"></i></button>
+                  </div>
+                ))}
+                <button type="button" onClick={() => setSoundEntries([...soundEntries, [`sound${soundEntries.length + 1}`, { url: '', description: '' }]])} className="text-sm text-blue-400 hover:text-blue-300">
+                  <i className="fas fa-plus mr-1"></i> 배경 소리 추가
+                </button>
+              </div>
+            </Field>
+          </div>
+
+          {/* --- Live preview --- */}
+          <div className="hidden md:flex md:w-2/5 flex-col border-l border-gray-700 bg-black">
+            <div className="flex items-center justify-between px-4 py-2 border-b border-gray-800 text-xs text-gray-400">
+              <span>미리보기 · 친밀도 {previewStats.affinity} · 섹시 무드 {previewStats.sexyMood}</span>
+              <button onClick={() => resetPreview(draft)} className="hover:text-white" title="미리보기 초기화"><i className="fas fa-sync-alt"></i></button>
+            </div>
+            <div className="flex-grow overflow-y-auto p-3 space-y-2">
+              {previewMessages.map(msg => (
+                <div key={msg.id} className={`flex ${msg.sender === 'user' ? 'justify-end' : 'justify-start'}`}>
+                  <div className={`max-w-[80%] rounded-2xl px-3 py-2 text-sm whitespace-pre-wrap ${msg.sender === 'user' ? 'bg-blue-600' : msg.isError ? 'bg-gray-800 text-gray-400 italic' : 'bg-gray-700'}`}>
+                    {msg.text}
+                  </div>
+                </div>
+              ))}
+              {isPreviewTyping && <div className="text-gray-500 text-sm"><i className="fas fa-ellipsis-h animate-pulse"></i></div>}
+              <div ref={previewEndRef} />
+            </div>
+            <form onSubmit={handlePreviewSend} className="p-3 border-t border-gray-800 flex space-x-2">
+              <input value={previewInput} onChange={e => setPreviewInput(e.target.value)} placeholder="미리 대화해보기..." className={inputClass} disabled={!draft.systemPrompt.trim()} />
+              <button type="submit" disabled={!previewInput.trim() || isPreviewTyping} className="bg-blue-600 rounded-lg px-3 disabled:bg-gray-600"><i className="fas fa-paper-plane"></i></button>
+            </form>
+          </div>
+        </div>
+
+        <div className="flex items-center justify-between p-4 border-t border-gray-700">
+          <p className="text-xs text-red-400 truncate mr-4">{problems.length > 0 && `확인이 필요한 항목: ${problems.join(', ')}`}</p>
+          <div className="flex space-x-3 flex-shrink-0">
+            <button onClick={onClose} className="bg-gray-600 text-white rounded-lg py-2 px-5 font-bold hover:bg-gray-700 transition-colors">취소</button>
+            <button onClick={handleSave} disabled={problems.length > 0 || isSaving} className="bg-blue-600 text-white rounded-lg py-2 px-5 font-bold hover:bg-blue-700 transition-colors disabled:bg-gray-500">
+              {isSaving ? <i className="fas fa-spinner fa-spin"></i> : '저장'}
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default CharacterEditorModal;
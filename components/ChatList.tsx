@@ -1,7 +1,8 @@
 
 
-import React from 'react';
+import React, { useState, useRef } from 'react';
 import type { Character, Conversations } from '../types';
+import type { RestoreMode } from '../services/backupService';
 
 interface ChatListProps {
   characters: Character[];
@@ -18,6 +19,10 @@ interface ChatListProps {
   onToggleAdminMode: () => void;
   onWarnCharacter: (characterId: string) => void;
   onLeaveChat: (character: Character) => void;
+  onExportBackup: () => void;
+  onImportBackup: (file: File, mode: RestoreMode) => void;
+  onImportCharacterCard: (file: File) => void;
+  onOpenCharacterEditor: () => void;
 }
 
 const ChatListItem: React.FC<{
@@ -97,7 +102,29 @@ const ChatListItem: React.FC<{
 );
 
 
-const ChatList: React.FC<ChatListProps> = ({ characters, selectedCharacterId, onSelectCharacter, conversations, onSwitchGender, favoriteCharacterIds, onToggleFavorite, onAddNewCharacter, isCreatingCharacter, onAvatarClick, isAdminMode, onToggleAdminMode, onWarnCharacter, onLeaveChat }) => {
+const ChatList: React.FC<ChatListProps> = ({ characters, selectedCharacterId, onSelectCharacter, conversations, onSwitchGender, favoriteCharacterIds, onToggleFavorite, onAddNewCharacter, isCreatingCharacter, onAvatarClick, isAdminMode, onToggleAdminMode, onWarnCharacter, onLeaveChat, onExportBackup, onImportBackup, onImportCharacterCard, onOpenCharacterEditor }) => {
+  const [isBackupMenuOpen, setIsBackupMenuOpen] = useState(false);
+  const backupFileInputRef = useRef<HTMLInputElement>(null);
+  const restoreModeRef = useRef<RestoreMode>('merge');
+  const cardFileInputRef = useRef<HTMLInputElement>(null);
+
+  const handleRestoreClick = (mode: RestoreMode) => {
+    restoreModeRef.current = mode;
+    setIsBackupMenuOpen(false);
+    backupFileInputRef.current?.click();
+  };
+
+  const handleBackupFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = ''; // Allow picking the same file again
+    if (file) onImportBackup(file, restoreModeRef.current);
+  };
+
+  const handleCardFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (file) onImportCharacterCard(file);
+  };
     
   const sortedCharacters = React.useMemo(() => {
     const favoriteChars = characters.filter(c => favoriteCharacterIds.includes(c.id));
@@ -153,6 +180,41 @@ const ChatList: React.FC<ChatListProps> = ({ characters, selectedCharacterId, on
                     <i className="fas fa-user-plus"></i>
                 )}
             </button>
+            <button
+                onClick={() => onOpenCharacterEditor()}
+                className="text-gray-400 hover:text-white transition-colors h-10 w-10 flex items-center justify-center rounded-full hover:bg-gray-800"
+                title="캐릭터 직접 만들기"
+            >
+                <i className="fas fa-user-edit"></i>
+            </button>
+            <div className="relative">
+                <button
+                    onClick={() => setIsBackupMenuOpen(prev => !prev)}
+                    className="text-gray-400 hover:text-white transition-colors h-10 w-10 flex items-center justify-center rounded-full hover:bg-gray-800"
+                    title="백업 및 가져오기"
+                >
+                    <i className="fas fa-database"></i>
+                </button>
+                {isBackupMenuOpen && (
+                    <div className="absolute right-0 mt-2 w-48 bg-gray-900 border border-gray-700 rounded-lg shadow-lg z-20 py-1 text-sm">
+                        <button onClick={() => { setIsBackupMenuOpen(false); onExportBackup(); }} className="w-full text-left px-4 py-2 text-gray-200 hover:bg-gray-800">
+                            <i className="fas fa-download w-5"></i> 백업 파일 저장
+                        </button>
+                        <button onClick={() => handleRestoreClick('merge')} className="w-full text-left px-4 py-2 text-gray-200 hover:bg-gray-800">
+                            <i className="fas fa-file-import w-5"></i> 백업 합치기
+                        </button>
+                        <button onClick={() => handleRestoreClick('replace')} className="w-full text-left px-4 py-2 text-red-400 hover:bg-gray-800">
+                            <i className="fas fa-upload w-5"></i> 백업으로 바꾸기
+                        </button>
+                        <div className="border-t border-gray-700 my-1"></div>
+                        <button onClick={() => { setIsBackupMenuOpen(false); cardFileInputRef.current?.click(); }} className="w-full text-left px-4 py-2 text-gray-200 hover:bg-gray-800">
+                            <i className="fas fa-id-card w-5"></i> 캐릭터 카드 가져오기
+                        </button>
+                    </div>
+                )}
+                <input type="file" ref={backupFileInputRef} onChange={handleBackupFileChange} accept="application/json,.json" className="hidden" />
+                <input type="file" ref={cardFileInputRef} onChange={handleCardFileChange} accept="application/json,.json,image/png" className="hidden" />
+            </div>
             <button 
                 onClick={onSwitchGender} 
                 className="text-gray-400 hover:text-white transition-colors h-10 w-10 flex items-center justify-center rounded-full hover:bg-gray-800"
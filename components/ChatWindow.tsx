@@ -1,9 +1,38 @@
 
 
 import React, { useState, useRef, useEffect, useCallback } from 'react';
-import type { Character, Conversation as ConversationType, Message } from '../types';
+import type { Character, Conversation as ConversationType, ImageStyle, Message } from '../types';
 import MessageBubble from './MessageBubble';
 import VoiceChatModal from './VoiceChatModal';
+import ConversationSummaryModal from './ConversationSummaryModal';
+import ImageGenerationModal from './ImageGenerationModal';
+import MediaGalleryModal from './MediaGalleryModal';
+import type { TranscriptFormat } from '../services/transcriptService';
+import { findLatestTurn } from '../services/variantService';
+import { listBranchPoints } from '../services/branchService';
+import type { BranchPoint } from '../services/branchService';
+import { formatCallDuration } from '../services/voiceCallService';
+import type { RelationshipAdjustment, VoiceCallTranscript } from '../services/voiceCallService';
+
+const BranchNavigator: React.FC<{ point: BranchPoint; disabled: boolean; onSwitch: (branchId: string) => void }> = ({ point, disabled, onSwitch }) => {
+  const { options, activeIndex } = point;
+  const switchTo = (index: number) => {
+    const branchId = options[index]?.branchId;
+    if (branchId) onSwitch(branchId);
+  };
+  return (
+    <div className="flex items-center justify-center gap-2 my-2 text-xs text-gray-400">
+      <i className="fas fa-code-branch"></i>
+      <button onClick={() => switchTo(activeIndex - 1)} disabled={disabled || activeIndex === 0} className="w-6 h-6 rounded-full hover:bg-gray-800 hover:text-white disabled:opacity-30 disabled:hover:bg-transparent" aria-label="이전 분기">
+        <i className="fas fa-chevron-left"></i>
+      </button>
+      <span>분기 {activeIndex + 1} / {options.length}</span>
+      <button onClick={() => switchTo(activeIndex + 1)} disabled={disabled || activeIndex === options.length - 1} className="w-6 h-6 rounded-full hover:bg-gray-800 hover:text-white disabled:opacity-30 disabled:hover:bg-transparent" aria-label="다음 분기">
+        <i className="fas fa-chevron-right"></i>
+      </button>
+    </div>
+  );
+};
 
 interface ChatWindowProps {
   character: Character | null;
@@ -11,6 +40,25 @@ interface ChatWindowProps {
   onSendMessage: (character: Character, text: string, file?: File, threadParentId?: string) => void;
   isTyping: boolean;
   onResetConversation: (character: Character) => void;
+  onLoadOlderMessages?: (character: Character, untilMessageId?: string) => Promise<void>;
+  onExportTranscript?: (character: Character, format: TranscriptFormat) => void;
+  onExportCharacterCard?: (character: Character, format: 'json' | 'png') => void;
+  onEditCharacter?: (character: Character) => void;
+  onRefreshSummary?: (character: Character) => Promise<void>;
+  onUpdateSummary?: (character: Character, text: string) => void;
+  onPinReferenceImage?: (character: Character, imageUrl: string) => void;
+  onGenerateImage?: (character: Character, prompt: string, style: ImageStyle) => void;
+  onSetAvatarFromImage?: (character: Character, imageUrl: string) => void;
+  onDeleteMediaMessage?: (character: Character, messageId: string) => Promise<boolean>;
+  onCancelImageJob?: (character: Character, messageId: string) => void;
+  onRegenerateResponse?: (character: Character) => void;
+  onSelectResponseVariant?: (character: Character, index: number) => void;
+  onEditUserMessage?: (character: Character, messageId: string, text: string) => void;
+  onDeleteUserMessage?: (character: Character, messageId: string) => void;
+  onSwitchBranch?: (character: Character, branchId: string) => void;
+  onVoiceCallEnded?: (character: Character, call: VoiceCallTranscript) => void;
+  onVoiceRelationshipChange?: (character: Character, adjustment: RelationshipAdjustment) => void;
+  onVoiceCallLeft?: (character: Character) => void;
   onLeaveChat: (character: Character) => void;
   onLogout: () => void;
   onBack?: () => void;
@@ -18,21 +66,47 @@ interface ChatWindowProps {
   hasUnreadFromOthers?: boolean;
 }
 
-const ChatWindow: React.FC<ChatWindowProps> = ({ character, conversation, onSendMessage, isTyping, onResetConversation, onLeaveChat, onLogout, onBack, onAvatarClick, hasUnreadFromOthers }) => {
+const ChatWindow: React.FC<ChatWindowProps> = ({ character, conversation, onSendMessage, isTyping, onResetConversation, onLoadOlderMessages, onExportTranscript, onExportCharacterCard, onEditCharacter, onRefreshSummary, onUpdateSummary, onPinReferenceImage, onGenerateImage, onSetAvatarFromImage, onDeleteMediaMessage, onCancelImageJob, onRegenerateResponse, onSelectResponseVariant, onEditUserMessage, onDeleteUserMessage, onSwitchBranch, onVoiceCallEnded, onVoiceRelationshipChange, onVoiceCallLeft, onLeaveChat, onLogout, onBack, onAvatarClick, hasUnreadFromOthers }) => {
   const [inputText, setInputText] = useState('');
   const [attachedFile, setAttachedFile] = useState<File | null>(null);
   const [previewUrl, setPreviewUrl] = useState<string | null>(null);
   const [replyingTo, setReplyingTo] = useState<Message | null>(null);
   const [isVoiceChatVisible, setIsVoiceChatVisible] = useState(false);
+  const [expandedVoiceCallIds, setExpandedVoiceCallIds] = useState<Set<string>>(new Set());
   const [showInviteToast, setShowInviteToast] = useState(false);
+  const [isLoadingOlder, setIsLoadingOlder] = useState(false);
+  const [isExportMenuOpen, setIsExportMenuOpen] = useState(false);
+  const [isSummaryVisible, setIsSummaryVisible] = useState(false);
+  const [isImageGenerationVisible, setIsImageGenerationVisible] = useState(false);
+  const [isGalleryVisible, setIsGalleryVisible] = useState(false);
+  const [highlightedMessageId, setHighlightedMessageId] = useState<string | null>(null);
   const messagesEndRef = useRef<HTMLDivElement>(null);
+  const scrollContainerRef = useRef<HTMLDivElement>(null);
   const fileInputRef = useRef<HTMLInputElement>(null);
 
   const scrollToBottom = useCallback(() => {
     messagesEndRef.current?.scrollIntoView({ behavior: 'smooth' });
   }, []);
 
-  useEffect(scrollToBottom, [conversation?.messages, isTyping]);
+  // Only follow the newest message; prepending older history must not jump to the bottom.
+  const lastMessage = conversation?.messages[conversation.messages.length - 1];
+  useEffect(scrollToBottom, [lastMessage, isTyping]);
+
+  const handleLoadOlder = useCallback(async () => {
+    const container = scrollContainerRef.current;
+    if (!character || !onLoadOlderMessages || !container || isLoadingOlder) return;
+    setIsLoadingOlder(true);
+    const previousScrollHeight = container.scrollHeight;
+    try {
+      await onLoadOlderMessages(character);
+    } finally {
+      setIsLoadingOlder(false);
+    }
+    // Keep the messages that were on screen in place after the older page is inserted above them.
+    requestAnimationFrame(() => {
+      container.scrollTop += container.scrollHeight - previousScrollHeight;
+    });
+  }, [character, onLoadOlderMessages, isLoadingOlder]);
 
   useEffect(() => {
     return () => {
@@ -47,8 +121,22 @@ const ChatWindow: React.FC<ChatWindowProps> = ({ character, conversation, onSend
       setPreviewUrl(null);
       setReplyingTo(null);
       setIsVoiceChatVisible(false); // Close voice chat on character switch
+      setIsExportMenuOpen(false);
+      setIsSummaryVisible(false);
+      setIsImageGenerationVisible(false);
+      setIsGalleryVisible(false);
+      setHighlightedMessageId(null);
   }, [character]);
 
+  // Scrolls a message picked in the gallery into view and flashes it.
+  useEffect(() => {
+    if (!highlightedMessageId) return;
+    const element = scrollContainerRef.current?.querySelector(`[data-message-id="${CSS.escape(highlightedMessageId)}"]`);
+    element?.scrollIntoView({ behavior: 'smooth', block: 'center' });
+    const timer = setTimeout(() => setHighlightedMessageId(null), 2000);
+    return () => clearTimeout(timer);
+  }, [highlightedMessageId]);
+
   const handleSendMessage = (e: React.FormEvent) => {
     e.preventDefault();
     if ((inputText.trim() || attachedFile) && character && conversation?.chatActive) {
@@ -62,6 +150,22 @@ const ChatWindow: React.FC<ChatWindowProps> = ({ character, conversation, onSend
     }
   };
 
+  const handleJumpToMessage = async (messageId: string) => {
+    if (!character) return;
+    setIsGalleryVisible(false);
+    if (!conversation?.messages.some(msg => msg.id === messageId)) {
+      await onLoadOlderMessages?.(character, messageId);
+    }
+    setHighlightedMessageId(messageId);
+  };
+
+  const handleGenerateImageSubmit = (prompt: string, style: ImageStyle) => {
+    if (!character || !onGenerateImage || !prompt.trim()) return;
+    onGenerateImage(character, prompt.trim(), style);
+    setIsImageGenerationVisible(false);
+    setInputText('');
+  };
+
   const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
     const file = e.target.files?.[0];
     if (file) {
@@ -94,6 +198,16 @@ const ChatWindow: React.FC<ChatWindowProps> = ({ character, conversation, onSend
     }
   }, [character, onLeaveChat]);
 
+  const handleExportClick = (format: TranscriptFormat) => {
+    setIsExportMenuOpen(false);
+    if (character) onExportTranscript?.(character, format);
+  };
+
+  const handleExportCardClick = (format: 'json' | 'png') => {
+    setIsExportMenuOpen(false);
+    if (character) onExportCharacterCard?.(character, format);
+  };
+
   const handleInviteClick = () => {
     navigator.clipboard.writeText(window.location.href).then(() => {
         setShowInviteToast(true);
@@ -111,6 +225,25 @@ const ChatWindow: React.FC<ChatWindowProps> = ({ character, conversation, onSend
     );
   }
 
+  const latestTurn = findLatestTurn(conversation.messages);
+  const latestTurnEndId = latestTurn?.messages[latestTurn.messages.length - 1].id;
+  const branchPoints = new Map(listBranchPoints(conversation).map(point => [point.forkAfterId, point]));
+  const voiceCallLineCounts = new Map<string, number>();
+  conversation.messages.forEach(msg => {
+    if (msg.voiceCall) voiceCallLineCounts.set(msg.voiceCall.id, (voiceCallLineCounts.get(msg.voiceCall.id) ?? 0) + 1);
+  });
+  const toggleVoiceCall = (callId: string) => setExpandedVoiceCallIds(prev => {
+    const next = new Set(prev);
+    if (!next.delete(callId)) next.add(callId);
+    return next;
+  });
+
+  const renderBranchNavigator = (forkAfterId: string | null) => {
+    const point = branchPoints.get(forkAfterId);
+    if (!point || !onSwitchBranch) return null;
+    return <BranchNavigator point={point} disabled={isTyping} onSwitch={branchId => onSwitchBranch(character, branchId)} />;
+  };
+
   return (
     <>
     <main className="w-full md:w-2/3 flex-grow bg-black flex flex-col relative">
@@ -143,9 +276,43 @@ const ChatWindow: React.FC<ChatWindowProps> = ({ character, conversation, onSend
         <button onClick={handleInviteClick} className="text-gray-400 hover:text-white transition-colors h-10 w-10 flex items-center justify-center rounded-full hover:bg-gray-800 flex-shrink-0" title="Invite a Friend">
             <i className="fas fa-share-square"></i>
         </button>
-        <button onClick={() => setIsVoiceChatVisible(true)} className="text-gray-400 hover:text-white transition-colors h-10 w-10 flex items-center justify-center rounded-full hover:bg-gray-800 flex-shrink-0" title="음성 통화 시작">
+        <button onClick={() => setIsVoiceChatVisible(true)} disabled={!conversation.chatActive} className="text-gray-400 hover:text-white transition-colors h-10 w-10 flex items-center justify-center rounded-full hover:bg-gray-800 flex-shrink-0 disabled:opacity-30 disabled:hover:bg-transparent disabled:hover:text-gray-400" title="음성 통화 시작">
             <i className="fas fa-phone-alt"></i>
         </button>
+        {onEditCharacter && (
+          <button onClick={() => onEditCharacter(character)} className="text-gray-400 hover:text-white transition-colors h-10 w-10 flex items-center justify-center rounded-full hover:bg-gray-800 flex-shrink-0" title="캐릭터 편집">
+              <i className="fas fa-user-edit"></i>
+          </button>
+        )}
+        {onUpdateSummary && onRefreshSummary && (
+          <button onClick={() => setIsSummaryVisible(true)} className="text-gray-400 hover:text-white transition-colors h-10 w-10 flex items-center justify-center rounded-full hover:bg-gray-800 flex-shrink-0" title="대화 요약">
+              <i className="fas fa-book-open"></i>
+          </button>
+        )}
+        <button onClick={() => setIsGalleryVisible(true)} className="text-gray-400 hover:text-white transition-colors h-10 w-10 flex items-center justify-center rounded-full hover:bg-gray-800 flex-shrink-0" title="사진 갤러리">
+            <i className="fas fa-images"></i>
+        </button>
+        {onExportTranscript && (
+          <div className="relative flex-shrink-0">
+            <button onClick={() => setIsExportMenuOpen(prev => !prev)} className="text-gray-400 hover:text-white transition-colors h-10 w-10 flex items-center justify-center rounded-full hover:bg-gray-800" title="내보내기">
+                <i className="fas fa-file-export"></i>
+            </button>
+            {isExportMenuOpen && (
+              <div className="absolute right-0 mt-2 w-44 bg-gray-900 border border-gray-700 rounded-lg shadow-lg z-20 py-1 text-sm">
+                <button onClick={() => handleExportClick('markdown')} className="w-full text-left px-4 py-2 text-gray-200 hover:bg-gray-800">Markdown</button>
+                <button onClick={() => handleExportClick('html')} className="w-full text-left px-4 py-2 text-gray-200 hover:bg-gray-800">HTML</button>
+                <button onClick={() => handleExportClick('json')} className="w-full text-left px-4 py-2 text-gray-200 hover:bg-gray-800">JSON</button>
+                {onExportCharacterCard && (
+                  <>
+                    <div className="border-t border-gray-700 my-1"></div>
+                    <button onClick={() => handleExportCardClick('json')} className="w-full text-left px-4 py-2 text-gray-200 hover:bg-gray-800">캐릭터 카드 (JSON)</button>
+                    <button onClick={() => handleExportCardClick('png')} className="w-full text-left px-4 py-2 text-gray-200 hover:bg-gray-800">캐릭터 카드 (PNG)</button>
+                  </>
+                )}
+              </div>
+            )}
+          </div>
+        )}
          <button onClick={handleResetClick} className="text-gray-400 hover:text-white transition-colors h-10 w-10 flex items-center justify-center rounded-full hover:bg-gray-800 flex-shrink-0" title="대화 초기화">
             <i className="fas fa-sync-alt"></i>
         </button>
@@ -157,7 +324,18 @@ const ChatWindow: React.FC<ChatWindowProps> = ({ character, conversation, onSend
         </button>
       </header>
       
-      <div className="flex-grow p-4 overflow-y-auto">
+      <div ref={scrollContainerRef} className="flex-grow p-4 overflow-y-auto">
+        {conversation.hasMoreHistory && onLoadOlderMessages && (
+            <div className="flex justify-center mb-4">
+                <button
+                    onClick={handleLoadOlder}
+                    disabled={isLoadingOlder}
+                    className="text-xs text-gray-400 hover:text-white bg-gray-800 hover:bg-gray-700 rounded-full px-4 py-1.5 transition-colors disabled:opacity-50"
+                >
+                    {isLoadingOlder ? <i className="fas fa-spinner fa-spin"></i> : '이전 대화 불러오기'}
+                </button>
+            </div>
+        )}
         {conversation.warning && (
             <div className="bg-yellow-900/50 border border-yellow-700 text-yellow-300 rounded-lg p-3 mb-4 text-sm flex items-start space-x-3">
                 <i className="fas fa-exclamation-triangle mt-1 flex-shrink-0"></i>
@@ -168,6 +346,7 @@ const ChatWindow: React.FC<ChatWindowProps> = ({ character, conversation, onSend
             </div>
         )}
         <div className="flex flex-col">
+          {renderBranchNavigator(null)}
           {conversation.messages.map((msg, index, messages) => {
             const prevMsg = messages[index - 1];
             const nextMsg = messages[index + 1];
@@ -184,16 +363,42 @@ const ChatWindow: React.FC<ChatWindowProps> = ({ character, conversation, onSend
             const parentMessage = msg.threadParentId
                 ? conversation.messages.find(p => p.id === msg.threadParentId)
                 : undefined;
+            const isLatestTurnEnd = !!latestTurn && msg.id === latestTurnEndId;
+            const canChangeMessage = msg.sender === 'user' && !isTyping;
+            const voiceCall = msg.voiceCall;
+            const startsVoiceCall = !!voiceCall && prevMsg?.voiceCall?.id !== voiceCall.id;
+            const isVoiceCallExpanded = !!voiceCall && expandedVoiceCallIds.has(voiceCall.id);
             return (
-                <MessageBubble 
-                    key={msg.id} 
+              <React.Fragment key={msg.id}>
+                {startsVoiceCall && (
+                  <button
+                      onClick={() => toggleVoiceCall(voiceCall.id)}
+                      className="self-center flex items-center gap-2 mt-4 mb-1 text-xs text-gray-400 hover:text-white bg-gray-800/70 hover:bg-gray-800 rounded-full px-4 py-1.5 transition-colors"
+                  >
+                      <i className="fas fa-phone-alt"></i>
+                      <span>음성 통화 · {formatCallDuration(voiceCall.durationMs)} · {voiceCallLineCounts.get(voiceCall.id)}개 대화</span>
+                      <i className={`fas fa-chevron-${isVoiceCallExpanded ? 'up' : 'down'}`}></i>
+                  </button>
+                )}
+                {(!voiceCall || isVoiceCallExpanded) && <MessageBubble 
                     message={msg} 
                     character={character} 
                     onSetReply={handleSetReply} 
                     parentMessage={parentMessage}
                     isFirstInSequence={isFirstInSequence}
                     isLastInSequence={isLastInSequence}
-                />
+                    onPinImage={onPinReferenceImage ? url => onPinReferenceImage(character, url) : undefined}
+                    isHighlighted={msg.id === highlightedMessageId}
+                    onCancelLoading={onCancelImageJob ? () => onCancelImageJob(character, msg.id) : undefined}
+                    variantIndex={isLatestTurnEnd ? latestTurn.activeVariant : undefined}
+                    variantCount={isLatestTurnEnd ? latestTurn.variants.length : undefined}
+                    onSelectVariant={isLatestTurnEnd && onSelectResponseVariant ? index => onSelectResponseVariant(character, index) : undefined}
+                    onRegenerate={isLatestTurnEnd && onRegenerateResponse && conversation.chatActive && !isTyping ? () => onRegenerateResponse(character) : undefined}
+                    onEdit={canChangeMessage && !voiceCall && onEditUserMessage ? text => onEditUserMessage(character, msg.id, text) : undefined}
+                    onDelete={canChangeMessage && onDeleteUserMessage ? () => onDeleteUserMessage(character, msg.id) : undefined}
+                />}
+                {renderBranchNavigator(msg.id)}
+              </React.Fragment>
             );
           })}
           {isTyping && (
@@ -245,6 +450,11 @@ const ChatWindow: React.FC<ChatWindowProps> = ({ character, conversation, onSend
                     <i className="fas fa-paperclip text-xl"></i>
                 </button>
                 <input type="file" ref={fileInputRef} onChange={handleFileChange} className="hidden" accept="image/*" />
+                {onGenerateImage && character.capabilities?.includes('image_generate') && (
+                    <button type="button" onClick={() => setIsImageGenerationVisible(true)} className="text-gray-400 hover:text-white transition-colors h-12 w-12 flex items-center justify-center flex-shrink-0" title="그림 요청하기">
+                        <i className="fas fa-magic text-xl"></i>
+                    </button>
+                )}
             </>
             <input
               type="text"
@@ -271,6 +481,34 @@ const ChatWindow: React.FC<ChatWindowProps> = ({ character, conversation, onSend
             conversation={conversation}
             onClose={() => setIsVoiceChatVisible(false)}
             onAvatarClick={onAvatarClick} 
+            onCallEnded={onVoiceCallEnded ? call => onVoiceCallEnded(character, call) : undefined}
+            onRelationshipChange={onVoiceRelationshipChange ? adjustment => onVoiceRelationshipChange(character, adjustment) : undefined}
+            onLeaveCall={onVoiceCallLeft ? () => onVoiceCallLeft(character) : undefined}
+        />
+    )}
+    <ImageGenerationModal
+        isOpen={isImageGenerationVisible}
+        onClose={() => setIsImageGenerationVisible(false)}
+        onSubmit={handleGenerateImageSubmit}
+        suggestedPrompt={inputText}
+    />
+    {isGalleryVisible && (
+        <MediaGalleryModal
+            character={character}
+            messages={conversation.messages}
+            onClose={() => setIsGalleryVisible(false)}
+            onJumpToMessage={handleJumpToMessage}
+            onSetAvatar={onSetAvatarFromImage ? url => onSetAvatarFromImage(character, url) : undefined}
+            onDelete={onDeleteMediaMessage ? messageId => onDeleteMediaMessage(character, messageId) : undefined}
+        />
+    )}
+    {isSummaryVisible && onUpdateSummary && onRefreshSummary && (
+        <ConversationSummaryModal
+            character={character}
+            summary={conversation.summary}
+            onClose={() => setIsSummaryVisible(false)}
+            onSave={text => onUpdateSummary(character, text)}
+            onRefresh={() => onRefreshSummary(character)}
         />
     )}
     </>
@@ -0,0 +1,122 @@
+import React, { useState, useEffect, useRef } from 'react';
+import type { Character, CharacterMemory, ConversationSummary } from '../types';
+import { deleteMemory, getMemories } from '../services/storageService';
+
+interface ConversationSummaryModalProps {
+  character: Character;
+  summary?: ConversationSummary;
+  onClose: () => void;
+  onSave: (text: string) => void;
+  onRefresh: () => Promise<void>;
+}
+
+const formatUpdatedAt = (timestamp: number) =>
+  new Date(timestamp).toLocaleString('ko-KR', { month: 'long', day: 'numeric', hour: '2-digit', minute: '2-digit' });
+
+const ConversationSummaryModal: React.FC<ConversationSummaryModalProps> = ({ character, summary, onClose, onSave, onRefresh }) => {
+  const [text, setText] = useState(summary?.text ?? '');
+  const [isRefreshing, setIsRefreshing] = useState(false);
+  const shownSummaryRef = useRef(summary?.text ?? '');
+  const [memories, setMemories] = useState<CharacterMemory[]>([]);
+
+  useEffect(() => {
+    let cancelled = false;
+    getMemories(character.id).then(loaded => {
+      if (!cancelled) setMemories(loaded);
+    });
+    return () => { cancelled = true; };
+  }, [character.id]);
+
+  const handleDeleteMemory = async (memory: CharacterMemory) => {
+    await deleteMemory(character.id, memory.id);
+    setMemories(prev => prev.filter(m => m.id !== memory.id));
+  };
+
+  // Pick up a refreshed summary unless the user has unsaved edits.
+  useEffect(() => {
+    const next = summary?.text ?? '';
+    setText(prev => (prev === shownSummaryRef.current ? next : prev));
+    shownSummaryRef.current = next;
+  }, [summary]);
+
+  useEffect(() => {
+    const handleEscape = (event: KeyboardEvent) => {
+      if (event.key === 'Escape') onClose();
+    };
+    window.addEventListener('keydown', handleEscape);
+    return () => window.removeEventListener('keydown', handleEscape);
+  }, [onClose]);
+
+  const isDirty = text.trim() !== (summary?.text ?? '').trim();
+
+  const handleRefresh = async () => {
+    setIsRefreshing(true);
+    try {
+      await onRefresh();
+    } finally {
+      setIsRefreshing(false);
+    }
+  };
+
+  const handleSave = () => {
+    onSave(text.trim());
+    onClose();
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-75 flex items-center justify-center z-50 animate-fade-in p-4" style={{ animationDuration: '0.3s' }} onClick={onClose}>
+      <div className="bg-gray-900 border border-gray-700 rounded-2xl shadow-xl p-6 w-full max-w-lg flex flex-col text-white" onClick={e => e.stopPropagation()}>
+        <div className="flex items-center justify-between mb-2">
+          <h2 className="text-xl font-bold">{character.name}님과의 대화 요약</h2>
+          <button onClick={onClose} className="text-gray-400 hover:text-white h-8 w-8 flex items-center justify-center rounded-full hover:bg-gray-800" title="닫기">
+            <i className="fas fa-times"></i>
+          </button>
+        </div>
+        <p className="text-xs text-gray-400 mb-4">
+          최근 대화보다 오래된 내용은 이 요약으로 기억해요. 틀린 내용을 고치거나 기억했으면 하는 내용을 직접 적어둘 수 있어요.
+          {summary && <> · 마지막 갱신: {formatUpdatedAt(summary.updatedAt)}</>}
+        </p>
+        <textarea
+          value={text}
+          onChange={e => setText(e.target.value)}
+          rows={12}
+          placeholder="아직 요약이 없어요. 대화가 길어지면 자동으로 만들어져요."
+          className="w-full bg-gray-800 border border-gray-700 rounded-lg px-3 py-2 text-sm text-white focus:outline-none focus:ring-2 focus:ring-blue-500"
+        />
+        <h3 className="text-sm font-bold text-gray-300 mt-5 mb-2">기억하고 있는 사실 ({memories.length})</h3>
+        {memories.length === 0 ? (
+          <p className="text-xs text-gray-500">아직 기억한 사실이 없어요. 대화 중에 중요한 이야기를 하면 {character.name}님이 기억해둬요.</p>
+        ) : (
+          <ul className="max-h-40 overflow-y-auto space-y-1">
+            {memories.map(memory => (
+              <li key={memory.id} className="flex items-start justify-between gap-2 bg-gray-800 rounded-lg px-3 py-2 text-sm">
+                <span>{memory.text}</span>
+                <button onClick={() => handleDeleteMemory(memory)} className="text-gray-500 hover:text-red-400 flex-shrink-0" title="잊게 하기">
+                  <i className="fas fa-trash-alt"></i>
+                </button>
+              </li>
+            ))}
+          </ul>
+        )}
+        <div className="flex items-center justify-between mt-4">
+          <button
+            onClick={handleRefresh}
+            disabled={isRefreshing || isDirty}
+            className="text-sm text-gray-300 hover:text-white bg-gray-800 hover:bg-gray-700 rounded-lg py-2 px-4 transition-colors disabled:opacity-50"
+            title={isDirty ? '수정한 내용을 먼저 저장해주세요' : undefined}
+          >
+            {isRefreshing ? <i className="fas fa-spinner fa-spin"></i> : <><i className="fas fa-sync-alt mr-2"></i>지금 요약하기</>}
+          </button>
+          <div className="space-x-2">
+            <button onClick={onClose} className="text-sm text-gray-300 hover:text-white py-2 px-4">취소</button>
+            <button onClick={handleSave} disabled={!isDirty} className="bg-blue-600 text-white rounded-lg py-2 px-5 text-sm font-bold hover:bg-blue-700 transition-colors disabled:bg-gray-500">
+              저장
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ConversationSummaryModal;
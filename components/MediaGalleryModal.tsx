@@ -0,0 +1,118 @@
+import React, { useState, useEffect } from 'react';
+import type { Character, Message } from '../types';
+import { loadGallery } from '../services/galleryService';
+import type { GalleryItem } from '../services/galleryService';
+import { downloadBlob, fileDateStamp } from '../services/downloadService';
+
+interface MediaGalleryModalProps {
+  character: Character;
+  messages: Message[];
+  onClose: () => void;
+  onJumpToMessage: (messageId: string) => void;
+  onSetAvatar?: (imageUrl: string) => void;
+  onDelete?: (messageId: string) => Promise<boolean>;
+}
+
+const formatTimestamp = (date: Date) =>
+  date.toLocaleString('ko-KR', { year: 'numeric', month: 'long', day: 'numeric', hour: '2-digit', minute: '2-digit' });
+
+const MediaGalleryModal: React.FC<MediaGalleryModalProps> = ({ character, messages, onClose, onJumpToMessage, onSetAvatar, onDelete }) => {
+  const [items, setItems] = useState<GalleryItem[] | null>(null);
+  const [selected, setSelected] = useState<GalleryItem | null>(null);
+  const [loadFailed, setLoadFailed] = useState(false);
+
+  // Loaded once per opening; deletions below update the list locally. Closing releases the image URLs it created.
+  useEffect(() => {
+    let cancelled = false;
+    let release: (() => void) | undefined;
+    loadGallery(character.id, messages).then(gallery => {
+      if (cancelled) return gallery.release();
+      release = gallery.release;
+      setItems(gallery.items);
+    }).catch(error => {
+      console.error("Failed to load the media gallery", error);
+      if (!cancelled) setLoadFailed(true);
+    });
+    return () => {
+      cancelled = true;
+      release?.();
+    };
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [character.id]);
+
+  useEffect(() => {
+    const handleEscape = (event: KeyboardEvent) => {
+      if (event.key !== 'Escape') return;
+      if (selected) setSelected(null);
+      else onClose();
+    };
+    window.addEventListener('keydown', handleEscape);
+    return () => window.removeEventListener('keydown', handleEscape);
+  }, [selected, onClose]);
+
+  const handleDownload = async (item: GalleryItem) => {
+    try {
+      const blob = await (await fetch(item.imageUrl)).blob();
+      const extension = blob.type.split('/')[1]?.replace('jpeg', 'jpg') || 'png';
+      downloadBlob(blob, `${character.name}-${fileDateStamp(item.timestamp)}.${extension}`);
+    } catch (error) {
+      console.error("Failed to download gallery image", error);
+      alert("사진을 저장하지 못했어요. 😢");
+    }
+  };
+
+  const handleDelete = async (item: GalleryItem) => {
+    if (!onDelete || !(await onDelete(item.messageId))) return;
+    setItems(prev => prev?.filter(i => i.messageId !== item.messageId) ?? null);
+    setSelected(null);
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-75 flex items-center justify-center z-50 animate-fade-in p-4" style={{ animationDuration: '0.3s' }} onClick={onClose}>
+      <div className="bg-gray-900 border border-gray-700 rounded-2xl shadow-xl p-6 w-full max-w-2xl max-h-[90vh] flex flex-col text-white" onClick={e => e.stopPropagation()}>
+        <div className="flex items-center justify-between mb-4">
+          <h2 className="text-xl font-bold">{character.name}님의 사진 {items && <span className="text-gray-400 text-base font-normal">({items.length})</span>}</h2>
+          <button onClick={onClose} className="text-gray-400 hover:text-white h-8 w-8 flex items-center justify-center rounded-full hover:bg-gray-800" title="닫기">
+            <i className="fas fa-times"></i>
+          </button>
+        </div>
+
+        {selected ? (
+          <div className="flex flex-col overflow-y-auto">
+            <img src={selected.imageUrl} alt={selected.prompt} className="max-h-[50vh] object-contain rounded-lg bg-black" />
+            <dl className="mt-4 text-sm space-y-1">
+              <div className="flex gap-2"><dt className="text-gray-400 w-14 flex-shrink-0">종류</dt><dd>{selected.source === 'edit' ? '편집한 사진' : '생성한 사진'}</dd></div>
+              {selected.style && <div className="flex gap-2"><dt className="text-gray-400 w-14 flex-shrink-0">스타일</dt><dd>{selected.style}</dd></div>}
+              <div className="flex gap-2"><dt className="text-gray-400 w-14 flex-shrink-0">날짜</dt><dd>{formatTimestamp(selected.timestamp)}</dd></div>
+              <div className="flex gap-2"><dt className="text-gray-400 w-14 flex-shrink-0">프롬프트</dt><dd className="whitespace-pre-wrap break-words text-gray-200">{selected.prompt}</dd></div>
+            </dl>
+            <div className="flex flex-wrap gap-2 mt-4">
+              <button onClick={() => setSelected(null)} className="text-sm text-gray-300 hover:text-white py-2 px-3"><i className="fas fa-arrow-left mr-2"></i>목록</button>
+              <button onClick={() => onJumpToMessage(selected.messageId)} className="text-sm bg-gray-800 hover:bg-gray-700 rounded-lg py-2 px-3"><i className="fas fa-comment-dots mr-2"></i>메시지로 이동</button>
+              {onSetAvatar && <button onClick={() => onSetAvatar(selected.imageUrl)} className="text-sm bg-gray-800 hover:bg-gray-700 rounded-lg py-2 px-3"><i className="fas fa-user-circle mr-2"></i>프로필 사진으로 설정</button>}
+              <button onClick={() => handleDownload(selected)} className="text-sm bg-gray-800 hover:bg-gray-700 rounded-lg py-2 px-3"><i className="fas fa-download mr-2"></i>다운로드</button>
+              {onDelete && <button onClick={() => handleDelete(selected)} className="text-sm bg-red-900/60 hover:bg-red-800 text-red-200 rounded-lg py-2 px-3"><i className="fas fa-trash-alt mr-2"></i>삭제</button>}
+            </div>
+          </div>
+        ) : loadFailed ? (
+          <p className="text-center text-gray-400 py-12">사진을 불러오지 못했어요. 😢</p>
+        ) : items === null ? (
+          <div className="flex justify-center py-12 text-gray-400"><i className="fas fa-spinner fa-spin text-2xl"></i></div>
+        ) : items.length === 0 ? (
+          <p className="text-center text-gray-400 py-12">아직 {character.name}님이 보낸 사진이 없어요.</p>
+        ) : (
+          <div className="grid grid-cols-3 sm:grid-cols-4 gap-2 overflow-y-auto">
+            {items.map(item => (
+              <button key={`${item.messageId}-${item.imageUrl}`} onClick={() => setSelected(item)} className="relative aspect-square rounded-lg overflow-hidden bg-gray-800 hover:ring-2 hover:ring-blue-500" title={item.prompt}>
+                <img src={item.imageUrl} alt={item.prompt} className="w-full h-full object-cover" />
+                {item.source === 'edit' && <span className="absolute bottom-1 right-1 bg-black/60 rounded px-1 text-xs"><i className="fas fa-paint-brush"></i></span>}
+              </button>
+            ))}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default MediaGalleryModal;
@@ -9,9 +9,22 @@ interface MessageBubbleProps {
   parentMessage?: Message;
   isFirstInSequence: boolean;
   isLastInSequence: boolean;
+  onPinImage?: (imageUrl: string) => void;
+  isHighlighted?: boolean;
+  onCancelLoading?: () => void;
+  // Only the last bubble of the latest reply gets these.
+  variantIndex?: number;
+  variantCount?: number;
+  onSelectVariant?: (index: number) => void;
+  onRegenerate?: () => void;
+  // User bubbles only. Both fork the conversation at this message.
+  onEdit?: (text: string) => void;
+  onDelete?: () => void;
 }
 
-const LoadingBubble: React.FC<{ loadingText?: string }> = ({ loadingText }) => (
+const SWIPE_THRESHOLD_PX = 50;
+
+const LoadingBubble: React.FC<{ loadingText?: string; onCancel?: () => void }> = ({ loadingText, onCancel }) => (
   <div className="bg-gray-700 text-white rounded-2xl p-3 flex flex-col items-center space-y-2">
     <div className="flex items-center space-x-1">
       <span className="h-2 w-2 bg-gray-400 rounded-full animate-bounce [animation-delay:-0.3s]"></span>
@@ -19,6 +32,11 @@ const LoadingBubble: React.FC<{ loadingText?: string }> = ({ loadingText }) => (
       <span className="h-2 w-2 bg-gray-400 rounded-full animate-bounce"></span>
     </div>
     {loadingText && <p className="text-sm text-gray-300">{loadingText}</p>}
+    {onCancel && (
+      <button onClick={onCancel} className="text-xs text-gray-400 hover:text-white">
+        <i className="fas fa-times mr-1"></i>취소
+      </button>
+    )}
   </div>
 );
 
@@ -33,7 +51,18 @@ const ParentMessagePreview: React.FC<{ parent: Message; characterName: string, i
     </div>
 );
 
-const ImageCarousel: React.FC<{ imageUrls: string[] }> = ({ imageUrls }) => {
+const PinImageButton: React.FC<{ onClick: () => void }> = ({ onClick }) => (
+  <button
+    onClick={onClick}
+    className="absolute top-2 right-2 bg-black/40 text-white rounded-full w-8 h-8 flex items-center justify-center opacity-0 group-hover/image:opacity-100 transition-opacity z-10 hover:bg-black/60"
+    title="얼굴 기준 사진으로 지정"
+    aria-label="Use as face reference"
+  >
+    <i className="fas fa-thumbtack text-sm"></i>
+  </button>
+);
+
+const ImageCarousel: React.FC<{ imageUrls: string[]; onPin?: (imageUrl: string) => void }> = ({ imageUrls, onPin }) => {
   const [currentIndex, setCurrentIndex] = useState(0);
   const scrollContainerRef = useRef<HTMLDivElement>(null);
 
@@ -70,11 +99,17 @@ const ImageCarousel: React.FC<{ imageUrls: string[] }> = ({ imageUrls }) => {
   };
 
   if (imageUrls.length === 1) {
-    return <img src={imageUrls[0]} alt="media" className="w-full max-w-xs object-cover block" />;
+    return (
+      <div className="group/image relative">
+        <img src={imageUrls[0]} alt="media" className="w-full max-w-xs object-cover block" />
+        {onPin && <PinImageButton onClick={() => onPin(imageUrls[0])} />}
+      </div>
+    );
   }
 
   return (
-    <div className="group relative w-full max-w-xs aspect-square">
+    <div className="group group/image relative w-full max-w-xs aspect-square">
+      {onPin && <PinImageButton onClick={() => onPin(imageUrls[currentIndex])} />}
       <div 
         ref={scrollContainerRef}
         className="flex overflow-x-auto snap-x snap-mandatory h-full w-full"
@@ -125,8 +160,20 @@ const ImageCarousel: React.FC<{ imageUrls: string[] }> = ({ imageUrls }) => {
   );
 };
 
-const MessageBubble: React.FC<MessageBubbleProps> = ({ message, character, onSetReply, parentMessage, isFirstInSequence, isLastInSequence }) => {
+const MessageBubble: React.FC<MessageBubbleProps> = ({ message, character, onSetReply, parentMessage, isFirstInSequence, isLastInSequence, onPinImage, isHighlighted, onCancelLoading, variantIndex = 0, variantCount = 1, onSelectVariant, onRegenerate, onEdit, onDelete }) => {
   const isUser = message.sender === 'user';
+  const [editText, setEditText] = useState<string | null>(null);
+  const touchStartXRef = useRef<number | null>(null);
+  const canSwipe = !!onSelectVariant && variantCount > 1;
+
+  const handleTouchEnd = (event: React.TouchEvent) => {
+    const startX = touchStartXRef.current;
+    touchStartXRef.current = null;
+    if (!canSwipe || startX === null) return;
+    const deltaX = event.changedTouches[0].clientX - startX;
+    if (deltaX <= -SWIPE_THRESHOLD_PX && variantIndex < variantCount - 1) onSelectVariant!(variantIndex + 1);
+    else if (deltaX >= SWIPE_THRESHOLD_PX && variantIndex > 0) onSelectVariant!(variantIndex - 1);
+  };
 
   const formatTimestamp = (date: Date): string => {
     return new Date(date).toLocaleString('ko-KR', {
@@ -156,9 +203,38 @@ const MessageBubble: React.FC<MessageBubbleProps> = ({ message, character, onSet
   };
 
 
+  const handleSubmitEdit = () => {
+    if (editText === null) return;
+    const text = editText.trim();
+    setEditText(null);
+    if (text && text !== message.text.trim()) onEdit?.(text);
+  };
+
   const renderContent = () => {
+    if (editText !== null) {
+      return (
+        <div className="bg-gray-800 border border-gray-600 rounded-2xl p-2 w-72 max-w-full">
+          <textarea
+            value={editText}
+            onChange={e => setEditText(e.target.value)}
+            onKeyDown={e => {
+              if (e.key === 'Enter' && !e.shiftKey && !e.nativeEvent.isComposing) { e.preventDefault(); handleSubmitEdit(); }
+              if (e.key === 'Escape') setEditText(null);
+            }}
+            className="w-full bg-transparent text-white text-base resize-none focus:outline-none"
+            rows={3}
+            autoFocus
+          />
+          <div className="flex justify-end gap-2 text-sm">
+            <button onClick={() => setEditText(null)} className="text-gray-400 hover:text-white px-2 py-1">취소</button>
+            <button onClick={handleSubmitEdit} disabled={!editText.trim()} className="bg-blue-600 hover:bg-blue-500 disabled:opacity-50 rounded-lg px-3 py-1">수정해서 보내기</button>
+          </div>
+        </div>
+      );
+    }
+
     if (message.isLoading) {
-      return <LoadingBubble loadingText={message.loadingText} />;
+      return <LoadingBubble loadingText={message.loadingText} onCancel={onCancelLoading} />;
     }
     
     if (message.isError) {
@@ -179,7 +255,7 @@ const MessageBubble: React.FC<MessageBubbleProps> = ({ message, character, onSet
 
     return (
       <div className={getBubbleClasses()}>
-        {hasImages && <ImageCarousel imageUrls={message.imageUrls!} />}
+        {hasImages && <ImageCarousel imageUrls={message.imageUrls!} onPin={onPinImage} />}
         {(hasText || parentMessage) && (
             <div className="px-4 py-3">
                 {parentMessage && <ParentMessagePreview parent={parentMessage} characterName={character.name} isUser={isUser}/>}
@@ -196,11 +272,17 @@ const MessageBubble: React.FC<MessageBubbleProps> = ({ message, character, onSet
   const containerClasses = [
     'group flex items-end gap-2 animate-message-in',
     isUser ? 'justify-end' : 'justify-start',
-    isFirstInSequence ? 'mt-4' : 'mt-0.5' // Space between groups vs within a group
+    isFirstInSequence ? 'mt-4' : 'mt-0.5', // Space between groups vs within a group
+    isHighlighted ? 'bg-blue-500/20 rounded-lg transition-colors' : 'transition-colors',
   ].join(' ');
 
   return (
-    <div className={containerClasses}>
+    <div
+      className={containerClasses}
+      data-message-id={message.id}
+      onTouchStart={canSwipe ? event => { touchStartXRef.current = event.touches[0].clientX; } : undefined}
+      onTouchEnd={canSwipe ? handleTouchEnd : undefined}
+    >
       {!isUser && (
         <div className="w-8 h-8 flex-shrink-0 self-end">
          {isLastInSequence && (
@@ -215,6 +297,26 @@ const MessageBubble: React.FC<MessageBubbleProps> = ({ message, character, onSet
        <div className={`flex items-center gap-2 ${isUser ? 'flex-row-reverse' : 'flex-row'}`}>
             <div className={`flex flex-col max-w-[85%] sm:max-w-[75%] md:max-w-[70%] ${isUser ? 'items-end' : 'items-start'}`}>
                 {content}
+                {(canSwipe || onRegenerate) && (
+                  <div className="flex items-center gap-1 mt-1 text-xs text-gray-400">
+                    {canSwipe && (
+                      <>
+                        <button onClick={() => onSelectVariant!(variantIndex - 1)} disabled={variantIndex === 0} className="w-6 h-6 rounded-full hover:bg-gray-800 hover:text-white disabled:opacity-30 disabled:hover:bg-transparent" aria-label="이전 답장">
+                          <i className="fas fa-chevron-left"></i>
+                        </button>
+                        <span>{variantIndex + 1} / {variantCount}</span>
+                        <button onClick={() => onSelectVariant!(variantIndex + 1)} disabled={variantIndex === variantCount - 1} className="w-6 h-6 rounded-full hover:bg-gray-800 hover:text-white disabled:opacity-30 disabled:hover:bg-transparent" aria-label="다음 답장">
+                          <i className="fas fa-chevron-right"></i>
+                        </button>
+                      </>
+                    )}
+                    {onRegenerate && (
+                      <button onClick={onRegenerate} className="w-6 h-6 rounded-full hover:bg-gray-800 hover:text-white" title="답장 다시 받기">
+                        <i className="fas fa-redo"></i>
+                      </button>
+                    )}
+                  </div>
+                )}
                 {isLastInSequence && (
                   <p className="text-xs text-gray-500 mt-1 px-1">
                     {formatTimestamp(message.timestamp)}
@@ -228,6 +330,24 @@ const MessageBubble: React.FC<MessageBubbleProps> = ({ message, character, onSet
             >
                 <i className="fas fa-reply"></i>
             </button>
+            {onEdit && editText === null && (
+              <button
+                  onClick={() => setEditText(message.text)}
+                  className="opacity-0 group-hover:opacity-100 transition-opacity text-gray-500 hover:text-white rounded-full w-8 h-8 flex items-center justify-center bg-gray-800/50"
+                  title="수정"
+              >
+                  <i className="fas fa-pen"></i>
+              </button>
+            )}
+            {onDelete && editText === null && (
+              <button
+                  onClick={onDelete}
+                  className="opacity-0 group-hover:opacity-100 transition-opacity text-gray-500 hover:text-red-400 rounded-full w-8 h-8 flex items-center justify-center bg-gray-800/50"
+                  title="삭제"
+              >
+                  <i className="fas fa-trash-alt"></i>
+              </button>
+            )}
        </div>
     </div>
   );
@@ -3,16 +3,23 @@
 import React, { useEffect } from 'react';
 import type { Character, Conversation } from '../types';
 import { useLiveChat } from '../hooks/useLiveChat';
+import type { RelationshipAdjustment, VoiceCallTranscript } from '../services/voiceCallService';
 
 interface VoiceChatModalProps {
   character: Character;
   conversation: Conversation;
   onClose: () => void;
   onAvatarClick?: (url: string) => void;
+  onCallEnded?: (call: VoiceCallTranscript) => void;
+  onRelationshipChange?: (adjustment: RelationshipAdjustment) => void;
+  onLeaveCall?: () => void;
 }
 
-const VoiceChatModal: React.FC<VoiceChatModalProps> = ({ character, conversation, onClose, onAvatarClick }) => {
-  const { connectionState, error, startSession, closeSession, currentAmbient } = useLiveChat(character, conversation);
+const VoiceChatModal: React.FC<VoiceChatModalProps> = ({ character, conversation, onClose, onAvatarClick, onCallEnded, onRelationshipChange, onLeaveCall }) => {
+  const {
+    connectionState, error, startSession, closeSession, currentAmbient, hasLeftCall,
+    inputMode, setInputMode, isMuted, setIsMuted, setIsPushToTalkHeld, isUserSpeaking, micLevel,
+  } = useLiveChat(character, conversation, { onCallEnded, onRelationshipChange, onLeaveCall });
 
   useEffect(() => {
     startSession();
@@ -24,9 +31,14 @@ const VoiceChatModal: React.FC<VoiceChatModalProps> = ({ character, conversation
   }, []);
 
   const getStatusIndicator = () => {
+    if (hasLeftCall) {
+      return <div className="text-gray-400">{character.name}님이 전화를 끊었어요</div>;
+    }
     switch (connectionState) {
       case 'CONNECTING':
         return <div className="text-yellow-400">연결 중...</div>;
+      case 'RECONNECTING':
+        return <div className="text-yellow-400 flex items-center"><i className="fas fa-sync-alt fa-spin mr-2"></i>연결이 끊겨서 다시 연결하는 중...</div>;
       case 'CONNECTED':
         return <div className="text-green-400 flex items-center"><div className="w-2 h-2 bg-green-400 rounded-full mr-2 animate-pulse"></div>실시간 대화 중</div>;
       case 'CLOSED':
@@ -62,8 +74,45 @@ const VoiceChatModal: React.FC<VoiceChatModalProps> = ({ character, conversation
             </div>
         </div>
 
-        <div className={`w-32 h-32 bg-gradient-to-r from-purple-500 to-blue-500 rounded-full flex items-center justify-center mb-8 transition-transform duration-300 ${isConnected ? 'animate-pulse scale-105' : 'scale-100'}`}>
-            <i className="fas fa-microphone-alt text-6xl text-white"></i>
+        {/* In push-to-talk mode the mic circle is the button to hold while speaking. */}
+        <button
+            type="button"
+            disabled={!isConnected || inputMode !== 'push-to-talk' || isMuted}
+            onPointerDown={() => setIsPushToTalkHeld(true)}
+            onPointerUp={() => setIsPushToTalkHeld(false)}
+            onPointerLeave={() => setIsPushToTalkHeld(false)}
+            onPointerCancel={() => setIsPushToTalkHeld(false)}
+            className={`w-32 h-32 rounded-full flex items-center justify-center mb-4 transition-all duration-150 select-none touch-none disabled:cursor-default ${isMuted ? 'bg-gray-700' : 'bg-gradient-to-r from-purple-500 to-blue-500'} ${isUserSpeaking ? 'scale-110 ring-4 ring-green-400/70' : isConnected && !isMuted && inputMode === 'vad' ? 'animate-pulse scale-105' : 'scale-100'}`}
+            aria-label={inputMode === 'push-to-talk' ? '누르고 있는 동안 말하기' : undefined}
+        >
+            <i className={`fas ${isMuted ? 'fa-microphone-slash' : 'fa-microphone-alt'} text-6xl text-white`}></i>
+        </button>
+
+        <div className="w-40 h-1.5 bg-gray-800 rounded-full overflow-hidden mb-2" aria-hidden="true">
+            <div className={`h-full transition-[width] duration-100 ${isMuted ? 'bg-gray-500' : 'bg-green-400'}`} style={{ width: `${Math.round(micLevel * 100)}%` }}></div>
+        </div>
+        <div className="h-5 mb-4 text-sm">
+            {isMuted ? <span className="text-gray-400">음소거 중</span>
+                : isUserSpeaking ? <span className="text-green-400">말하는 중...</span>
+                : null}
+        </div>
+
+        <div className="flex gap-2 mb-6">
+            <button
+                onClick={() => setIsMuted(!isMuted)}
+                className={`rounded-full py-2 px-4 text-sm transition-colors ${isMuted ? 'bg-yellow-600 hover:bg-yellow-700' : 'bg-gray-800 hover:bg-gray-700'}`}
+            >
+                <i className={`fas ${isMuted ? 'fa-microphone' : 'fa-microphone-slash'} mr-2`}></i>
+                {isMuted ? '음소거 해제' : '음소거'}
+            </button>
+            <button
+                onClick={() => setInputMode(inputMode === 'vad' ? 'push-to-talk' : 'vad')}
+                className="rounded-full py-2 px-4 text-sm bg-gray-800 hover:bg-gray-700 transition-colors"
+                title="말하는 방식 바꾸기"
+            >
+                <i className={`fas ${inputMode === 'vad' ? 'fa-wave-square' : 'fa-hand-pointer'} mr-2`}></i>
+                {inputMode === 'vad' ? '자동 감지' : '눌러서 말하기'}
+            </button>
         </div>
         
         {error && (
@@ -73,7 +122,9 @@ const VoiceChatModal: React.FC<VoiceChatModalProps> = ({ character, conversation
         )}
 
         <p className="text-gray-400 mb-8 text-center">
-            마이크에 대고 말하면 {character.name}님이 바로 듣고 답장해줄 거예요.
+            {inputMode === 'push-to-talk'
+                ? `마이크 버튼을 누르고 있는 동안 말하면 ${character.name}님이 듣고 답장해줄 거예요.`
+                : `마이크에 대고 말하면 ${character.name}님이 바로 듣고 답장해줄 거예요.`}
         </p>
         
         <button
@@ -0,0 +1,70 @@
+// Model outputs captured from chat sessions, trimmed to the parts the parser cares about.
+
+export const LEGACY_SPLIT_MESSAGES = `THOUGHT: 유저가 내 취미를 칭찬해줬네. 기분 좋다! AFFINITY_ADJUSTMENT: 5, SEXY_MOOD_ADJUSTMENT: 3
+MESSAGE: 와 진짜?|||대박 신기하다!|||나도 한번 가보고 싶어! 😄
+COMMANDS:`;
+
+export const LEGACY_NEGATIVE_ADJUSTMENT = `THOUGHT: 내 말을 못 알아들은 것 같아. 좀 서운하네. AFFINITY_ADJUSTMENT: -3, SEXY_MOOD_ADJUSTMENT: -1
+MESSAGE: 음... 그게 아니라 ㅠㅠ`;
+
+export const LEGACY_IMAGE_COMMAND = `THOUGHT: 유저가 셀카를 요청했으니, 내 캐릭터에 맞는 사진 프롬프트를 작성하고 바로 생성해야겠다. AFFINITY_ADJUSTMENT: 2, SEXY_MOOD_ADJUSTMENT: 1
+MESSAGE: 내 사진? 좋아! ㅋㅋ 바로 찍어서 보내줄게! 잠시만 기다려줘! 😉
+COMMANDS: GENERATE_IMAGE:"A candid selfie of a cute and lovely 24-year-old Korean woman, winking in a bright cafe in Yeonnam-dong."`;
+
+export const LEGACY_MULTI_COMMAND = `THOUGHT: 더는 못 참겠어. 마지막으로 사진 하나 보내고 나갈래. AFFINITY_ADJUSTMENT: -60, SEXY_MOOD_ADJUSTMENT: -20
+MESSAGE: 이거 보고 반성해.|||잘 있어.
+COMMANDS: GENERATE_IMAGE:"A blurry photo of an empty cafe table at night." LEAVE_CHAT`;
+
+export const LEGACY_IN_MESSAGE_TYPO = `THOUGHT: 유저가 오늘 뭐 했는지 물어보네. AFFINITY_ADJUSTMENT: 1, SEXY_MOOD_ADJUSTMENT: 0
+inMESSAGE: 오늘 뭐했어?|||나는 과제 폭탄 맞았어 ㅠㅠ
+COMMANDS:`;
+
+export const LEGACY_ESCAPED_QUOTES = `THOUGHT: 친구 이야기를 해줘야지. AFFINITY_ADJUSTMENT: 0, SEXY_MOOD_ADJUSTMENT: 0
+MESSAGE: "민지가 나보고 \\"너 요즘 왜 이렇게 웃어?\\"래 ㅋㅋ\\n너 때문인 줄도 모르고"`;
+
+export const LEGACY_JSON_MESSAGE = '```json\n{"THOUGHT": "반가운 연락이다. AFFINITY_ADJUSTMENT: 2", "MESSAGE": "안녕!|||연락 기다렸어 ㅎㅎ", "COMMANDS": ""}\n```';
+
+export const LEGACY_METADATA_LEAK = `MESSAGE: 보고 싶었어 AFFINITY_ADJUSTMENT: 4, SEXY_MOOD_ADJUSTMENT: 2|||오늘 만날래?`;
+
+export const PLAIN_TEXT_ONLY = '응 나도 좋아 ㅎㅎ';
+
+export const STRUCTURED_TURN = JSON.stringify({
+  thought: '유저가 내 취미를 칭찬해줬네. AFFINITY_ADJUSTMENT 올려야지.',
+  affinityAdjustment: 5,
+  sexyMoodAdjustment: 3,
+  messages: ['와 진짜?', '대박 신기하다!'],
+  commands: [],
+});
+
+export const STRUCTURED_MULTI_COMMAND = JSON.stringify({
+  thought: '사진을 보내고 대화방을 나가자.',
+  affinityAdjustment: '-10',
+  sexyMoodAdjustment: 0,
+  messages: ['이거 마지막 사진이야|||잘 지내', '  '],
+  commands: [
+    { type: 'GENERATE_IMAGE', prompt: ' A rainy street at night. ' },
+    { type: 'GENERATE_IMAGE' },
+    { type: 'DANCE' },
+    'LEAVE_CHAT',
+  ],
+});
+
+export const LEGACY_REMEMBER_COMMANDS = `THOUGHT: 이름이랑 직업을 알려줬네. 꼭 기억해야지. AFFINITY_ADJUSTMENT: 2, SEXY_MOOD_ADJUSTMENT: 0
+MESSAGE: 민준이구나! 반가워 ㅎㅎ|||개발자라니 멋지다 😊
+COMMANDS: REMEMBER:"유저의 이름은 민준이다." REMEMBER:"유저는 개발자로 일한다."`;
+
+export const STRUCTURED_REMEMBER_COMMANDS = JSON.stringify({
+  thought: '생일을 알려줬어.',
+  affinityAdjustment: 1,
+  sexyMoodAdjustment: 0,
+  messages: ['3월 14일이구나! 꼭 기억할게'],
+  commands: [
+    { type: 'REMEMBER', fact: ' 유저의 생일은 3월 14일이다. ' },
+    { type: 'REMEMBER', prompt: '유저는 화이트데이에 태어났다.' },
+    { type: 'REMEMBER' },
+  ],
+});
+
+export const STRUCTURED_TRUNCATED = '{"thought": "오늘 기분 좋다", "affinityAdjustment": 3, "sexyMoodAdjustment": 1, "messages": ["좋아 ㅎㅎ", "그럼 토요일에 볼까?", "어디서 만날';
+
+export const STRUCTURED_TRUNCATED_BEFORE_MESSAGES = '{"thought": "오늘 기분 좋다", "affinityAdj';
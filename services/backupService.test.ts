@@ -0,0 +1,45 @@
+import { describe, expect, it } from 'vitest';
+import { parseProfileArchive } from './backupService';
+
+const archive = (overrides: Record<string, unknown> = {}) => JSON.stringify({
+  format: 'ai-chat-profile-backup',
+  version: 1,
+  gender: 'female',
+  exportedAt: '2025-01-01T00:00:00.000Z',
+  favoriteCharacterIds: ['sumin'],
+  characters: [
+    {
+      character: { id: 'sumin' },
+      isCustom: false,
+      conversation: { characterId: 'sumin', affinity: 40, sexyMood: 10, chatActive: true, hasUnreadMessages: false },
+      messages: [{ id: 'm1', text: '안녕', sender: 'user', timestamp: '2025-01-01T00:00:00.000Z' }],
+    },
+  ],
+  ...overrides,
+});
+
+describe('parseProfileArchive', () => {
+  it('accepts a well-formed archive for the current profile', () => {
+    const parsed = parseProfileArchive(archive(), 'female');
+    expect(parsed.characters[0].character.id).toBe('sumin');
+    expect(parsed.favoriteCharacterIds).toEqual(['sumin']);
+  });
+
+  it('rejects files that are not JSON or not a backup', () => {
+    expect(() => parseProfileArchive('not json', 'female')).toThrow('손상');
+    expect(() => parseProfileArchive(JSON.stringify({ hello: 'world' }), 'female')).toThrow('백업 파일이 아니에요');
+  });
+
+  it('rejects archives from a newer version or the other profile', () => {
+    expect(() => parseProfileArchive(archive({ version: 99 }), 'female')).toThrow('최신 버전');
+    expect(() => parseProfileArchive(archive(), 'male')).toThrow('다른 프로필');
+  });
+
+  it('rejects incomplete custom characters and corrupt messages', () => {
+    const incomplete = archive({ characters: [{ character: { id: 'x', name: '하늘' }, isCustom: true, messages: [] }] });
+    expect(() => parseProfileArchive(incomplete, 'female')).toThrow('하늘');
+
+    const corrupt = archive({ characters: [{ character: { id: 'sumin' }, isCustom: false, messages: [{ id: 'm1', sender: 'ai', timestamp: 'yesterday' }] }] });
+    expect(() => parseProfileArchive(corrupt, 'female')).toThrow('대화 기록');
+  });
+});
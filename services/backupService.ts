@@ -0,0 +1,227 @@
+import { FEMALE_CHARACTERS, MALE_CHARACTERS } from '../constants';
+import type { Character, CharacterMemory, Conversation, Conversations, Message, UserGender } from '../types';
+import * as storageService from './storageService';
+import { urlToDataUrl } from './downloadService';
+import { isRecord } from './typeGuards';
+
+const ARCHIVE_FORMAT = 'ai-chat-profile-backup';
+const ARCHIVE_VERSION = 1;
+
+export type RestoreMode = 'merge' | 'replace';
+
+type ArchivedMessage = Omit<Message, 'timestamp' | 'isLoading' | 'loadingText'> & { timestamp: string };
+// Only the shown branch is archived, so set-aside branches are left out with their metadata.
+type ConversationState = Omit<Conversation, 'messages' | 'chatSession' | 'hasMoreHistory' | 'branches'>;
+
+interface ArchivedCharacter {
+    /** Full record (minus avatar) for custom characters; predefined ones are restored from constants by id. */
+    character: storageService.CharacterShell;
+    isCustom: boolean;
+    avatar?: string; // data URL
+    referenceImage?: string; // data URL of the pinned face reference, if one was chosen
+    conversation?: ConversationState;
+    messages: ArchivedMessage[];
+    memories?: CharacterMemory[]; // absent in backups made before long-term memory existed
+}
+
+export interface ProfileArchive {
+    format: typeof ARCHIVE_FORMAT;
+    version: number;
+    gender: UserGender;
+    exportedAt: string;
+    favoriteCharacterIds: string[];
+    characters: ArchivedCharacter[];
+}
+
+export interface ProfileSnapshot {
+    characters: Character[];
+    conversations: Conversations;
+    favoriteCharacterIds: string[];
+}
+
+const getPredefinedCharacters = (gender: UserGender) => gender === 'female' ? FEMALE_CHARACTERS : MALE_CHARACTERS;
+
+const toArchivedMessage = async ({ isLoading, loadingText, timestamp, imageUrls, ...msg }: Message): Promise<ArchivedMessage> => ({
+    ...msg,
+    timestamp: new Date(timestamp).toISOString(),
+    imageUrls: imageUrls?.length ? await Promise.all(imageUrls.map(urlToDataUrl)) : undefined,
+});
+
+const archiveReferenceImage = async (gender: UserGender, characterId: string): Promise<string | undefined> => {
+    const pinned = await storageService.getAvatar(storageService.getReferenceImageKey(gender, characterId));
+    if (!pinned) return undefined;
+    try {
+        return await urlToDataUrl(pinned).catch(() => undefined);
+    } finally {
+        URL.revokeObjectURL(pinned);
+    }
+};
+
+export const createProfileArchive = async (gender: UserGender, snapshot: ProfileSnapshot): Promise<Blob> => {
+    const predefinedIds = new Set(getPredefinedCharacters(gender).map(c => c.id));
+
+    const characters = await Promise.all(snapshot.characters.map(async (char): Promise<ArchivedCharacter> => {
+        const isCustom = !predefinedIds.has(char.id);
+        const { avatarUrl, ...record } = char;
+        // Only generated or uploaded avatars are archived; default remote avatars come back with the build.
+        const avatar = /^(data|blob):/.test(avatarUrl) ? await urlToDataUrl(avatarUrl).catch(() => undefined) : undefined;
+        const referenceImage = await archiveReferenceImage(gender, char.id);
+
+        const conv = snapshot.conversations[char.id];
+        let conversation: ConversationState | undefined;
+        if (conv) {
+            const { messages, chatSession, hasMoreHistory, branches, ...state } = conv;
+            conversation = state;
+        }
+
+        const messages = await Promise.all((await storageService.getAllMessages(char.id)).map(toArchivedMessage));
+        const memories = await storageService.getMemories(char.id);
+        return { character: isCustom ? record : { id: char.id }, isCustom, avatar, referenceImage, conversation, messages, memories };
+    }));
+
+    const archive: ProfileArchive = {
+        format: ARCHIVE_FORMAT,
+        version: ARCHIVE_VERSION,
+        gender,
+        exportedAt: new Date().toISOString(),
+        favoriteCharacterIds: snapshot.favoriteCharacterIds,
+        characters,
+    };
+    return new Blob([JSON.stringify(archive)], { type: 'application/json' });
+};
+
+const isCustomCharacterRecord = (value: unknown): boolean =>
+    isRecord(value)
+    && typeof value.name === 'string'
+    && typeof value.systemPrompt === 'string'
+    && typeof value.initialMessage === 'string'
+    && typeof value.initialAffinity === 'number'
+    && typeof value.initialSexyMood === 'number';
+
+const isArchivedMessage = (value: unknown): boolean =>
+    isRecord(value)
+    && typeof value.id === 'string'
+    && (value.sender === 'user' || value.sender === 'ai')
+    && typeof value.timestamp === 'string' && !isNaN(Date.parse(value.timestamp));
+
+/** Validates a backup file's contents; throws with a user-facing message when it can't be restored here. */
+export const parseProfileArchive = (text: string, gender: UserGender): ProfileArchive => {
+    let data: unknown;
+    try {
+        data = JSON.parse(text);
+    } catch {
+        throw new Error('백업 파일을 읽을 수 없어요. 파일이 손상되었을 수 있습니다.');
+    }
+
+    if (!isRecord(data) || data.format !== ARCHIVE_FORMAT || typeof data.version !== 'number') {
+        throw new Error('이 앱에서 만든 백업 파일이 아니에요.');
+    }
+    if (data.version > ARCHIVE_VERSION) {
+        throw new Error('더 최신 버전의 앱에서 만든 백업 파일이에요. 앱을 업데이트한 뒤 다시 시도해주세요.');
+    }
+    if (data.gender !== gender) {
+        throw new Error(`다른 프로필(${data.gender === 'female' ? '여성' : '남성'} 캐릭터)의 백업 파일이에요.`);
+    }
+    if (!Array.isArray(data.characters) || !Array.isArray(data.favoriteCharacterIds)) {
+        throw new Error('백업 파일의 형식이 올바르지 않아요.');
+    }
+
+    const entries: unknown[] = data.characters;
+    for (const entry of entries) {
+        if (!isRecord(entry) || !isRecord(entry.character) || typeof entry.character.id !== 'string'
+            || !Array.isArray(entry.messages) || (entry.memories !== undefined && !Array.isArray(entry.memories))) {
+            throw new Error('백업 파일에 잘못된 캐릭터 정보가 있어요.');
+        }
+        const { character } = entry;
+        const label = (typeof character.name === 'string' && character.name) || character.id;
+        if (entry.isCustom && !isCustomCharacterRecord(character)) {
+            throw new Error(`백업 파일의 캐릭터 '${label}' 정보가 불완전해요.`);
+        }
+        const messages: unknown[] = entry.messages;
+        if (!messages.every(isArchivedMessage)) {
+            throw new Error(`백업 파일의 '${label}' 대화 기록이 손상되었어요.`);
+        }
+    }
+    // The checks above cover every field restoring relies on.
+    return data as unknown as ProfileArchive;
+};
+
+/**
+ * Writes the archive into storage and returns the resulting profile state.
+ * `merge` adds missing characters and messages but keeps local character records and stats;
+ * `replace` discards the current profile first.
+ */
+export const restoreProfileArchive = async (
+    archive: ProfileArchive,
+    mode: RestoreMode,
+    current: ProfileSnapshot
+): Promise<ProfileSnapshot> => {
+    const { gender } = archive;
+    const predefined = new Map(getPredefinedCharacters(gender).map(c => [c.id, c]));
+
+    if (mode === 'replace') {
+        await Promise.all(current.characters.map(async (char) => {
+            await storageService.deleteMessages(char.id);
+            await storageService.deleteMemories(char.id);
+            await storageService.deleteBranches(char.id);
+            await storageService.deleteAvatar(storageService.getAvatarKey(gender, char.id));
+            await storageService.deleteAvatar(storageService.getReferenceImageKey(gender, char.id));
+            if (!predefined.has(char.id)) await storageService.deleteCharacter(char.id);
+        }));
+    }
+
+    const characters = mode === 'replace' ? [] : [...current.characters];
+    const conversations: Conversations = mode === 'replace' ? {} : { ...current.conversations };
+
+    for (const entry of archive.characters) {
+        const id = entry.character.id;
+        const existing = characters.find(c => c.id === id);
+
+        await storageService.saveMessages(id, entry.messages.map(msg => ({ ...msg, timestamp: new Date(msg.timestamp) })));
+        await storageService.saveMemories(id, (entry.memories ?? []).filter(m => typeof m?.id === 'string' && typeof m.text === 'string' && typeof m.createdAt === 'number'));
+        if (existing) continue;
+
+        const base = entry.isCustom ? (entry.character as Omit<Character, 'avatarUrl'>) : predefined.get(id);
+        if (!base) {
+            console.warn(`Skipping unknown predefined character '${id}' from backup`);
+            continue;
+        }
+        const character: Character = { avatarUrl: '', ...base };
+        if (entry.avatar) {
+            await storageService.saveAvatar(storageService.getAvatarKey(gender, id), entry.avatar);
+            character.avatarUrl = entry.avatar;
+        }
+        if (entry.referenceImage) {
+            await storageService.saveAvatar(storageService.getReferenceImageKey(gender, id), entry.referenceImage);
+        }
+        if (entry.isCustom) await storageService.saveCharacter(character);
+
+        characters.push(character);
+        conversations[id] = {
+            characterId: id,
+            affinity: character.initialAffinity,
+            sexyMood: character.initialSexyMood,
+            chatActive: true,
+            hasUnreadMessages: false,
+            ...entry.conversation,
+            messages: [],
+        };
+    }
+
+    // Reload the newest page so restored history shows up exactly as it would after a reload.
+    await Promise.all(Object.values(conversations).map(async (conv) => {
+        const page = await storageService.getMessagesPage(conv.characterId);
+        conversations[conv.characterId] = { ...conv, messages: page.messages, hasMoreHistory: page.hasMore };
+    }));
+
+    const characterIds = new Set(characters.map(c => c.id));
+    const favoriteCharacterIds = mode === 'replace'
+        ? archive.favoriteCharacterIds
+        : [...new Set([...current.favoriteCharacterIds, ...archive.favoriteCharacterIds])];
+
+    return {
+        characters,
+        conversations,
+        favoriteCharacterIds: favoriteCharacterIds.filter(id => characterIds.has(id)),
+    };
+};
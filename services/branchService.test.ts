@@ -0,0 +1,61 @@
+import { describe, expect, it } from 'vitest';
+import type { Conversation, ConversationBranch, Message } from '../types';
+import { describeBranch, listBranchPoints, splitAtMessage } from './branchService';
+
+const at = (minute: number) => new Date(2025, 0, 1, 10, minute);
+const msg = (id: string, sender: Message['sender'], minute: number, text = id): Message => ({ id, text, sender, timestamp: at(minute) });
+
+const conversationWith = (messages: Message[], branches: ConversationBranch[] = []): Conversation => ({
+  characterId: 'c1',
+  messages,
+  affinity: 40,
+  sexyMood: 10,
+  chatActive: true,
+  hasUnreadMessages: false,
+  branches,
+});
+
+const branch = (id: string, forkAfterId: string | null, minute: number): ConversationBranch =>
+  ({ id, forkAfterId, startedAt: at(minute).getTime(), preview: id, affinity: 0, sexyMood: 0, chatActive: true });
+
+describe('splitAtMessage', () => {
+  it('splits before the message and names the message it forks after', () => {
+    const messages = [msg('greeting', 'ai', 0), msg('u1', 'user', 1), msg('a1', 'ai', 2)];
+    expect(splitAtMessage(messages, 'u1')).toEqual({ forkAfterId: 'greeting', prefix: [messages[0]], tail: messages.slice(1) });
+    expect(splitAtMessage(messages, 'greeting')?.forkAfterId).toBeNull();
+    expect(splitAtMessage(messages, 'missing')).toBeNull();
+  });
+});
+
+describe('describeBranch', () => {
+  it('keeps the conversation state at the end of the tail and a preview of its first message', () => {
+    const tail = [{ ...msg('u1', 'user', 1), imageUrls: ['blob:x'], text: '' }, msg('a1', 'ai', 2)];
+    expect(describeBranch('b1', 'greeting', tail, { ...conversationWith([]), chatActive: false })).toEqual({
+      id: 'b1', forkAfterId: 'greeting', startedAt: at(1).getTime(), preview: '📷 사진', affinity: 40, sexyMood: 10, chatActive: false,
+    });
+  });
+});
+
+describe('listBranchPoints', () => {
+  it('orders the shown continuation among the set-aside ones by start time', () => {
+    const messages = [msg('greeting', 'ai', 0), msg('u1-edited', 'user', 5), msg('a2', 'ai', 6)];
+    const points = listBranchPoints(conversationWith(messages, [branch('original', 'greeting', 1), branch('later', 'greeting', 9)]));
+    expect(points).toEqual([{
+      forkAfterId: 'greeting',
+      options: [
+        { branchId: 'original', startedAt: at(1).getTime() },
+        { branchId: null, startedAt: at(5).getTime() },
+        { branchId: 'later', startedAt: at(9).getTime() },
+      ],
+      activeIndex: 1,
+    }]);
+  });
+
+  it('puts an emptied continuation last and skips fork points that are not shown', () => {
+    const messages = [msg('greeting', 'ai', 0)];
+    const points = listBranchPoints(conversationWith(messages, [branch('deleted', 'greeting', 1), branch('nested', 'elsewhere', 2)]));
+    expect(points).toHaveLength(1);
+    expect(points[0].options.map(option => option.branchId)).toEqual(['deleted', null]);
+    expect(points[0].activeIndex).toBe(1);
+  });
+});
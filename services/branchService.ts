@@ -0,0 +1,69 @@
+import type { Conversation, ConversationBranch, Message } from '../types';
+
+const PREVIEW_LENGTH = 40;
+
+export interface BranchOption {
+    branchId: string | null; // null is the continuation being shown
+    startedAt: number;
+}
+
+export interface BranchPoint {
+    forkAfterId: string | null;
+    options: BranchOption[];
+    activeIndex: number;
+}
+
+const timeOf = (msg: Message) => new Date(msg.timestamp).getTime();
+
+const previewOf = (messages: Message[]): string => {
+    const first = messages.find(msg => msg.text?.trim() || msg.imageUrls?.length);
+    if (!first) return '';
+    return first.text?.trim() ? first.text.trim().slice(0, PREVIEW_LENGTH) : '📷 사진';
+};
+
+/** Splits the shown messages at `messageId`: what stays, and the tail that starts with that message. */
+export const splitAtMessage = (messages: Message[], messageId: string): { forkAfterId: string | null; prefix: Message[]; tail: Message[] } | null => {
+    const index = messages.findIndex(msg => msg.id === messageId);
+    if (index === -1) return null;
+    return {
+        forkAfterId: index > 0 ? messages[index - 1].id : null,
+        prefix: messages.slice(0, index),
+        tail: messages.slice(index),
+    };
+};
+
+/** The record for a tail being set aside, carrying the conversation's current state as the state at its end. */
+export const describeBranch = (id: string, forkAfterId: string | null, tail: Message[], conversation: Conversation): ConversationBranch => ({
+    id,
+    forkAfterId,
+    startedAt: tail.length ? timeOf(tail[0]) : Date.now(),
+    preview: previewOf(tail),
+    affinity: conversation.affinity,
+    sexyMood: conversation.sexyMood,
+    chatActive: conversation.chatActive,
+});
+
+/**
+ * The places in the shown messages where the conversation forks, each with its continuations in the order
+ * they were started. Branches forking from a message that isn't loaded (or lives in another branch) are left out.
+ */
+export const listBranchPoints = (conversation: Conversation): BranchPoint[] => {
+    const byForkPoint = new Map<string | null, ConversationBranch[]>();
+    for (const branch of conversation.branches ?? []) {
+        byForkPoint.set(branch.forkAfterId, [...(byForkPoint.get(branch.forkAfterId) ?? []), branch]);
+    }
+
+    const points: BranchPoint[] = [];
+    byForkPoint.forEach((branches, forkAfterId) => {
+        const index = forkAfterId === null ? -1 : conversation.messages.findIndex(msg => msg.id === forkAfterId);
+        if (forkAfterId === null ? conversation.hasMoreHistory : index === -1) return;
+        const next = conversation.messages[index + 1];
+        const options: BranchOption[] = [
+            ...branches.map(branch => ({ branchId: branch.id, startedAt: branch.startedAt })),
+            // An emptied continuation (after a deletion) sorts last.
+            { branchId: null, startedAt: next ? timeOf(next) : Number.POSITIVE_INFINITY },
+        ].sort((a, b) => a.startedAt - b.startedAt);
+        points.push({ forkAfterId, options, activeIndex: options.findIndex(option => option.branchId === null) });
+    });
+    return points;
+};
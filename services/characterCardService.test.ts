@@ -0,0 +1,78 @@
+import { describe, expect, it } from 'vitest';
+import { FEMALE_CHARACTERS } from '../constants';
+import { embedPngText, isPng, readPngText, validateCharacterCard } from './characterCardService';
+
+// Smallest valid PNG: a 1x1 transparent pixel.
+const PIXEL_PNG = Uint8Array.from(atob(
+  'iVBORw0KGgoAAAANSUhEUgAAAAEAAAABCAQAAAC1HAwCAAAAC0lEQVR42mNkYAAAAAYAAjCB0C8AAAAASUVORK5CYII='
+), ch => ch.charCodeAt(0));
+
+const validCard = () => ({
+  format: 'ai-chat-character-card',
+  version: 1,
+  character: {
+    id: 'haneul',
+    name: '하늘',
+    age: 24,
+    systemPrompt: '너는 하늘이야.',
+    initialMessage: '안녕!',
+    initialAffinity: 40,
+    initialSexyMood: 10,
+    thinkingTimeMs: { min: 1000, max: 3000 },
+    typingSpeedCpm: { min: 200, max: 400 },
+    mbti: 'ENFP',
+    bloodType: 'O',
+    voiceName: 'Kore',
+    ambientSounds: { cafe: { url: 'https://example.com/cafe.mp3', description: '카페' } },
+    defaultAmbientSound: 'cafe',
+  },
+});
+
+describe('PNG text chunks', () => {
+  it('round-trips text embedded before IEND', () => {
+    const embedded = embedPngText(PIXEL_PNG, 'ai-chat-card', 'eyJhIjoxfQ==');
+    expect(isPng(embedded)).toBe(true);
+    expect(readPngText(embedded, 'ai-chat-card')).toBe('eyJhIjoxfQ==');
+    expect(Array.from(embedded.subarray(-8, -4)).map(b => String.fromCharCode(b)).join('')).toBe('IEND');
+  });
+
+  it('replaces an existing chunk with the same keyword', () => {
+    const once = embedPngText(PIXEL_PNG, 'ai-chat-card', 'first');
+    const twice = embedPngText(once, 'ai-chat-card', 'second');
+    expect(readPngText(twice, 'ai-chat-card')).toBe('second');
+    expect(twice.length).toBe(once.length + 1);
+  });
+
+  it('returns null when the keyword is missing and rejects non-PNG input', () => {
+    expect(readPngText(PIXEL_PNG, 'ai-chat-card')).toBeNull();
+    expect(() => embedPngText(new Uint8Array([1, 2, 3]), 'k', 'v')).toThrow();
+  });
+});
+
+describe('validateCharacterCard', () => {
+  it('accepts a complete card', () => {
+    expect(validateCharacterCard(validCard()).character.name).toBe('하늘');
+  });
+
+  it('rejects other files and newer versions', () => {
+    expect(() => validateCharacterCard({ hello: 'world' })).toThrow('캐릭터 카드 파일이 아니에요');
+    expect(() => validateCharacterCard({ ...validCard(), version: 2 })).toThrow('최신 버전');
+  });
+
+  it('lists every invalid field', () => {
+    const card = validCard();
+    const broken = {
+      ...card,
+      character: { ...card.character, id: 'Bad Id', initialAffinity: 150, capabilities: ['fly'], defaultAmbientSound: 'beach' },
+    };
+    expect(() => validateCharacterCard(broken)).toThrow(/id\(.*initialAffinity.*capabilities.*defaultAmbientSound/);
+  });
+
+  it('checks the shape of prompt sections', () => {
+    const { avatarUrl, ...sumin } = FEMALE_CHARACTERS[0];
+    expect(validateCharacterCard({ ...validCard(), character: sumin }).character.promptSections?.role).toBe('AI 여자친구');
+
+    const broken = { ...sumin, promptSections: { ...sumin.promptSections!, personality: '밝아' } };
+    expect(() => validateCharacterCard({ ...validCard(), character: broken })).toThrow('promptSections');
+  });
+});
@@ -0,0 +1,275 @@
+import type { Character, CharacterCapability } from '../types';
+import { urlToDataUrl } from './downloadService';
+import { isRecord, isStringArray } from './typeGuards';
+
+const CARD_FORMAT = 'ai-chat-character-card';
+const CARD_VERSION = 1;
+// tEXt keyword the card JSON is stored under when embedded in the avatar PNG.
+const PNG_CARD_KEYWORD = 'ai-chat-card';
+
+const PNG_SIGNATURE = [0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a];
+const KNOWN_CAPABILITIES: CharacterCapability[] = ['image_generate', 'image_edit'];
+
+export interface CharacterCard {
+    format: typeof CARD_FORMAT;
+    version: number;
+    character: Omit<Character, 'avatarUrl'>;
+    avatar?: string; // data URL
+}
+
+// --- PNG text chunks ---
+
+const CRC_TABLE = (() => {
+    const table = new Uint32Array(256);
+    for (let n = 0; n < 256; n++) {
+        let c = n;
+        for (let k = 0; k < 8; k++) {
+            c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+        }
+        table[n] = c >>> 0;
+    }
+    return table;
+})();
+
+const crc32 = (bytes: Uint8Array): number => {
+    let crc = 0xffffffff;
+    for (const byte of bytes) {
+        crc = CRC_TABLE[(crc ^ byte) & 0xff] ^ (crc >>> 8);
+    }
+    return (crc ^ 0xffffffff) >>> 0;
+};
+
+export const isPng = (bytes: Uint8Array): boolean => PNG_SIGNATURE.every((b, i) => bytes[i] === b);
+
+const latin1 = (text: string) => Uint8Array.from(text, ch => ch.charCodeAt(0) & 0xff);
+
+// Built in slices; spreading a whole chunk into fromCharCode can overflow the call stack.
+const bytesToLatin1 = (bytes: Uint8Array): string => {
+    let text = '';
+    for (let i = 0; i < bytes.length; i += 0x8000) {
+        text += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+    }
+    return text;
+};
+
+/** Inserts a tEXt chunk right before IEND, replacing any existing chunk with the same keyword. */
+export const embedPngText = (png: Uint8Array, keyword: string, text: string): Uint8Array => {
+    if (!isPng(png)) throw new Error('PNG 이미지가 아니에요.');
+    const withoutExisting = stripPngText(png, keyword);
+    const iendOffset = withoutExisting.length - 12; // IEND is always the last, data-less chunk
+
+    const data = latin1(`${keyword}\0${text}`);
+    const chunk = new Uint8Array(12 + data.length);
+    const view = new DataView(chunk.buffer);
+    view.setUint32(0, data.length);
+    chunk.set(latin1('tEXt'), 4);
+    chunk.set(data, 8);
+    view.setUint32(8 + data.length, crc32(chunk.subarray(4, 8 + data.length)));
+
+    const result = new Uint8Array(withoutExisting.length + chunk.length);
+    result.set(withoutExisting.subarray(0, iendOffset), 0);
+    result.set(chunk, iendOffset);
+    result.set(withoutExisting.subarray(iendOffset), iendOffset + chunk.length);
+    return result;
+};
+
+const forEachChunk = (png: Uint8Array, visit: (type: string, start: number, end: number, data: Uint8Array) => void) => {
+    const view = new DataView(png.buffer, png.byteOffset, png.byteLength);
+    let offset = PNG_SIGNATURE.length;
+    while (offset + 12 <= png.length) {
+        const length = view.getUint32(offset);
+        const type = String.fromCharCode(...png.subarray(offset + 4, offset + 8));
+        const end = offset + 12 + length;
+        visit(type, offset, end, png.subarray(offset + 8, offset + 8 + length));
+        offset = end;
+    }
+};
+
+const readTextChunk = (data: Uint8Array): [string, string] => {
+    const separator = data.indexOf(0);
+    return [bytesToLatin1(data.subarray(0, separator)), bytesToLatin1(data.subarray(separator + 1))];
+};
+
+const stripPngText = (png: Uint8Array, keyword: string): Uint8Array => {
+    const kept: Uint8Array[] = [png.subarray(0, PNG_SIGNATURE.length)];
+    forEachChunk(png, (type, start, end, data) => {
+        if (type === 'tEXt' && readTextChunk(data)[0] === keyword) return;
+        kept.push(png.subarray(start, end));
+    });
+    const result = new Uint8Array(kept.reduce((sum, part) => sum + part.length, 0));
+    let offset = 0;
+    kept.forEach(part => { result.set(part, offset); offset += part.length; });
+    return result;
+};
+
+export const readPngText = (png: Uint8Array, keyword: string): string | null => {
+    let found: string | null = null;
+    forEachChunk(png, (type, _start, _end, data) => {
+        if (found === null && type === 'tEXt') {
+            const [key, text] = readTextChunk(data);
+            if (key === keyword) found = text;
+        }
+    });
+    return found;
+};
+
+// tEXt is Latin-1 only, so the UTF-8 card JSON is base64-encoded first.
+const utf8ToBase64 = (text: string) => btoa(bytesToLatin1(new TextEncoder().encode(text)));
+const base64ToUtf8 = (base64: string) => new TextDecoder().decode(Uint8Array.from(atob(base64), ch => ch.charCodeAt(0)));
+
+// --- Validation ---
+
+const isRange = (value: unknown): boolean =>
+    isRecord(value) && typeof value.min === 'number' && typeof value.max === 'number' && value.min <= value.max;
+
+const isPercent = (value: unknown): boolean => typeof value === 'number' && Number.isInteger(value) && value >= 0 && value <= 100;
+
+const hasStringFields = (value: Record<string, unknown>, fields: string[]): boolean =>
+    fields.every(field => typeof value[field] === 'string');
+
+const isTurnExample = (value: unknown): boolean =>
+    isRecord(value) && typeof value.thought === 'string' && Number.isInteger(value.affinity) && Number.isInteger(value.sexyMood);
+
+const isStyleExample = (value: unknown): boolean =>
+    isRecord(value) && typeof value.situation === 'string' && isStringArray(value.messages);
+
+const isAmbientSound = (value: unknown): boolean =>
+    isRecord(value) && typeof value.url === 'string' && typeof value.description === 'string';
+
+const isCapability = (value: unknown): boolean => KNOWN_CAPABILITIES.some(capability => capability === value);
+
+// Only the shape is checked; the builder renders whatever text the sections contain.
+const isPromptSections = (s: unknown): boolean => {
+    if (!isRecord(s)) return false;
+    const { statSystem: stats, mediaRules: media, messageStyle: style } = s;
+    const mood = isRecord(stats) ? stats.moodGuide : undefined;
+    return typeof s.role === 'string'
+        && isStringArray(s.persona) && isStringArray(s.personality) && isStringArray(s.background)
+        && isRecord(stats) && hasStringFields(stats, ['affinity', 'leaveCondition', 'sexyMood'])
+        && Array.isArray(stats.adjustmentExamples) && stats.adjustmentExamples.every(isTurnExample)
+        && isRecord(mood) && hasStringFields(mood, ['low', 'medium', 'high', 'max'])
+        && (media === undefined || (isRecord(media)
+            && hasStringFields(media, ['selfieTraits', 'selfieSubject', 'selfiePromptExample', 'sceneRequestExample', 'refusalTone'])
+            && isStringArray(media.refusalExamples)
+            && isRecord(media.example) && isTurnExample(media.example) && hasStringFields(media.example, ['message', 'imagePrompt'])))
+        && (style === undefined || (isRecord(style)
+            && hasStringFields(style, ['principle', 'styleName', 'style', 'note'])
+            && Array.isArray(style.examples) && style.examples.every(isStyleExample)))
+        && (s.voiceDirection === undefined || typeof s.voiceDirection === 'string');
+};
+
+/** Lists the invalid fields of an untrusted character record, as short labels for user-facing messages. */
+export const getCharacterProblems = (value: unknown): string[] => {
+    const c = isRecord(value) ? value : {};
+    const problems: string[] = [];
+    if (typeof c.id !== 'string' || !/^[a-z0-9_-]+$/.test(c.id)) problems.push('id(영문 소문자, 숫자, _, -)');
+    if (typeof c.name !== 'string' || !c.name.trim()) problems.push('이름');
+    if (typeof c.age !== 'number' || !Number.isInteger(c.age) || c.age < 19) problems.push('나이(19세 이상)');
+    for (const field of ['systemPrompt', 'initialMessage', 'mbti', 'bloodType', 'voiceName']) {
+        const text = c[field];
+        if (typeof text !== 'string' || !text.trim()) problems.push(field);
+    }
+    if (!isPercent(c.initialAffinity)) problems.push('initialAffinity(0~100)');
+    if (!isPercent(c.initialSexyMood)) problems.push('initialSexyMood(0~100)');
+    if (!isRange(c.thinkingTimeMs)) problems.push('thinkingTimeMs');
+    if (!isRange(c.typingSpeedCpm)) problems.push('typingSpeedCpm');
+    if (c.capabilities !== undefined && !(Array.isArray(c.capabilities) && c.capabilities.every(isCapability))) {
+        problems.push('capabilities');
+    }
+    if (c.responseFormat !== undefined && c.responseFormat !== 'structured' && c.responseFormat !== 'legacy') {
+        problems.push('responseFormat');
+    }
+    if (c.promptSections !== undefined && !isPromptSections(c.promptSections)) problems.push('promptSections');
+    if (c.ambientSounds !== undefined) {
+        const sounds = c.ambientSounds;
+        if (!isRecord(sounds) || !Object.values(sounds).every(isAmbientSound)) problems.push('ambientSounds');
+        else if (c.defaultAmbientSound !== undefined && !(typeof c.defaultAmbientSound === 'string' && c.defaultAmbientSound in sounds)) problems.push('defaultAmbientSound');
+    }
+    return problems;
+};
+
+/** Checks an untrusted card object; throws with a user-facing message listing every invalid field. */
+export const validateCharacterCard = (data: unknown): CharacterCard => {
+    if (!isRecord(data) || data.format !== CARD_FORMAT || typeof data.version !== 'number') {
+        throw new Error('캐릭터 카드 파일이 아니에요.');
+    }
+    if (data.version > CARD_VERSION) {
+        throw new Error('더 최신 버전의 앱에서 만든 캐릭터 카드예요.');
+    }
+
+    const problems = getCharacterProblems(data.character);
+    if (data.avatar !== undefined && (typeof data.avatar !== 'string' || !data.avatar.startsWith('data:image/'))) {
+        problems.push('avatar');
+    }
+
+    if (problems.length > 0) {
+        throw new Error(`캐릭터 카드의 항목이 올바르지 않아요: ${problems.join(', ')}`);
+    }
+    // The checks above cover every field a character record needs.
+    return data as unknown as CharacterCard;
+};
+
+// --- Export / Import ---
+
+export const createCharacterCard = async (character: Character): Promise<CharacterCard> => {
+    const { avatarUrl, ...rest } = character;
+    const avatar = avatarUrl ? await urlToDataUrl(avatarUrl).catch(() => undefined) : undefined;
+    return { format: CARD_FORMAT, version: CARD_VERSION, character: rest, avatar };
+};
+
+export const exportCharacterCardJson = async (character: Character): Promise<Blob> =>
+    new Blob([JSON.stringify(await createCharacterCard(character), null, 2)], { type: 'application/json' });
+
+const imageToPngBytes = async (url: string): Promise<Uint8Array> => {
+    const image = new Image();
+    image.crossOrigin = 'anonymous';
+    image.src = url;
+    await image.decode();
+    const canvas = document.createElement('canvas');
+    canvas.width = image.naturalWidth;
+    canvas.height = image.naturalHeight;
+    canvas.getContext('2d')!.drawImage(image, 0, 0);
+    const blob = await new Promise<Blob | null>(resolve => canvas.toBlob(resolve, 'image/png'));
+    if (!blob) throw new Error('아바타 이미지를 PNG로 변환하지 못했어요.');
+    return new Uint8Array(await blob.arrayBuffer());
+};
+
+/** The avatar re-encoded as PNG with the card embedded, so the image itself can be shared. */
+export const exportCharacterCardPng = async (character: Character): Promise<Blob> => {
+    if (!character.avatarUrl) throw new Error('아바타 이미지가 없어 PNG 카드를 만들 수 없어요.');
+    const png = await imageToPngBytes(character.avatarUrl);
+    // The PNG already carries the avatar, so it isn't duplicated inside the embedded card.
+    const { avatar, ...card } = await createCharacterCard({ ...character, avatarUrl: '' });
+    const embedded = embedPngText(png, PNG_CARD_KEYWORD, utf8ToBase64(JSON.stringify(card)));
+    return new Blob([embedded], { type: 'image/png' });
+};
+
+/** Reads a card from a `.json` file or a PNG with an embedded card; the PNG becomes the avatar. */
+export const parseCharacterCardFile = async (file: File): Promise<CharacterCard> => {
+    const bytes = new Uint8Array(await file.arrayBuffer());
+    if (isPng(bytes)) {
+        const embedded = readPngText(bytes, PNG_CARD_KEYWORD);
+        if (!embedded) throw new Error('이 PNG 이미지에는 캐릭터 카드 정보가 없어요.');
+        let data: unknown;
+        try {
+            data = JSON.parse(base64ToUtf8(embedded));
+        } catch {
+            throw new Error('PNG에 들어 있는 캐릭터 카드가 손상되었어요.');
+        }
+        const card = isRecord(data) ? data : {};
+        const fileUrl = URL.createObjectURL(file);
+        try {
+            return validateCharacterCard({ ...card, avatar: card.avatar ?? await urlToDataUrl(fileUrl) });
+        } finally {
+            URL.revokeObjectURL(fileUrl);
+        }
+    }
+
+    let data: unknown;
+    try {
+        data = JSON.parse(new TextDecoder().decode(bytes));
+    } catch {
+        throw new Error('캐릭터 카드 파일을 읽을 수 없어요.');
+    }
+    return validateCharacterCard(data);
+};
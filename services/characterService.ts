@@ -1,9 +1,11 @@
-import { GoogleGenAI, Type } from "@google/genai";
+import { Type } from "@google/genai";
+import type { Schema } from "@google/genai";
 import type { Character, UserGender } from '../types';
 import { generateImage } from './mediaService';
+import { getChatProvider } from './providers';
 
 // Schema for the character generation response to ensure structured output
-const characterSchema = {
+const characterSchema: Schema = {
   type: Type.OBJECT,
   properties: {
     id: { type: Type.STRING, description: 'A unique lowercase English identifier, e.g., "haewon" or "jaehyun".' },
@@ -141,22 +143,22 @@ const createSystemPromptForGenerator = (gender: UserGender, existingCharacters:
 
 // FIX: Corrected the type of the 'gender' parameter from 'UserUserGender' to 'UserGender'.
 export const generateNewCharacter = async (existingCharacters: Character[], gender: UserGender): Promise<Character> => {
-    const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
     const systemInstruction = createSystemPromptForGenerator(gender, existingCharacters);
 
     console.log("Generating character with prompt:", systemInstruction);
 
-    const response = await ai.models.generateContent({
-        model: 'gemini-2.5-pro', // Use a powerful model for this complex creative task
+    const response = await getChatProvider().generate({
+        tier: 'pro', // Use a powerful model for this complex creative task
         contents: "Please generate one new character now.",
-        config: {
-            systemInstruction,
-            responseMimeType: "application/json",
-            responseSchema: characterSchema,
-            temperature: 1.0, // Increase creativity
-        },
+        systemInstruction,
+        responseMimeType: "application/json",
+        responseSchema: characterSchema,
+        temperature: 1.0, // Increase creativity
     });
-    
+
+    if (!response.text) {
+        throw new Error("The character generator returned an empty response.");
+    }
     const generatedData = JSON.parse(response.text);
 
     // Extract the selfie prompt from the new dedicated schema field.
@@ -0,0 +1,71 @@
+import { describe, expect, it } from 'vitest';
+import { buildChatContents } from './chatHistory';
+import type { Message } from '../types';
+
+let nextId = 0;
+const message = (sender: Message['sender'], text: string, extra: Partial<Message> = {}): Message => ({
+  id: `m${nextId++}`,
+  text,
+  sender,
+  timestamp: new Date(0),
+  ...extra,
+});
+
+describe('buildChatContents', () => {
+  it('merges consecutive messages from the same side into one turn', () => {
+    const contents = buildChatContents([
+      message('user', '안녕'),
+      message('user', '뭐해?'),
+      message('ai', '나 카페야'),
+      message('ai', '너는?'),
+      message('user', '집이야'),
+    ]);
+    expect(contents).toEqual([
+      { role: 'user', parts: [{ text: '안녕' }, { text: '뭐해?' }] },
+      { role: 'model', parts: [{ text: '나 카페야' }, { text: '너는?' }] },
+      { role: 'user', parts: [{ text: '집이야' }] },
+    ]);
+  });
+
+  it('drops model turns before the first user turn', () => {
+    const contents = buildChatContents([
+      message('ai', '어제 번호 교환했던 사람 맞죠?'),
+      message('user', '응 맞아'),
+    ]);
+    expect(contents).toEqual([{ role: 'user', parts: [{ text: '응 맞아' }] }]);
+  });
+
+  it('skips empty and image-only messages unless the image is attached', () => {
+    const photo = message('user', '', { imageUrls: ['blob:photo'] });
+    const contents = buildChatContents([
+      message('user', '   '),
+      message('ai', '', { imageUrls: ['data:image/png;base64,AAAA'] }),
+      photo,
+    ], { messageId: photo.id, inlineData: { mimeType: 'image/png', data: 'AAAA' } });
+    expect(contents).toEqual([{ role: 'user', parts: [{ inlineData: { mimeType: 'image/png', data: 'AAAA' } }] }]);
+  });
+
+  it('puts the attachment before the text of the same message', () => {
+    const withPhoto = message('user', ' 이거 봐 ');
+    const contents = buildChatContents([withPhoto], { messageId: withPhoto.id, inlineData: { mimeType: 'image/jpeg', data: 'BBBB' } });
+    expect(contents[0].parts).toEqual([{ inlineData: { mimeType: 'image/jpeg', data: 'BBBB' } }, { text: '이거 봐' }]);
+  });
+
+  it('keeps only the last 20 turns', () => {
+    const messages = Array.from({ length: 30 }, (_, i) => message(i % 2 === 0 ? 'user' : 'ai', `turn ${i}`));
+    const contents = buildChatContents(messages);
+    expect(contents).toHaveLength(20);
+    expect(contents[0].parts).toEqual([{ text: 'turn 10' }]);
+    expect(contents[19].parts).toEqual([{ text: 'turn 29' }]);
+  });
+
+  it('can start the window on a model turn after trimming', () => {
+    const messages = Array.from({ length: 5 }, (_, i) => message(i % 2 === 0 ? 'user' : 'ai', `turn ${i}`));
+    expect(buildChatContents(messages, undefined, 2)[0].role).toBe('model');
+  });
+
+  it('returns an empty array when there is no user turn', () => {
+    expect(buildChatContents([message('ai', '안녕하세요')])).toEqual([]);
+    expect(buildChatContents([])).toEqual([]);
+  });
+});
@@ -0,0 +1,64 @@
+import type { GeminiContent, GeminiMessagePart, Message } from '../types';
+
+export const MAX_HISTORY_CONTENTS = 20;
+
+export interface HistoryAttachment {
+  messageId: string;
+  inlineData: { mimeType: string; data: string };
+}
+
+/**
+ * Builds the `contents` sent to the chat model from a conversation's messages.
+ * Consecutive messages from the same side are merged into one turn, empty messages are skipped,
+ * model turns before the first user turn are dropped, and only the last `maxContents` turns are kept.
+ * When `summarizedUntil` is given (the summary's `coveredUntil`, 0 without one), the window also reaches back
+ * to the oldest message the summary doesn't cover yet, so nothing falls between the summary and the history.
+ * Returns an empty array when there is no user turn to respond to.
+ */
+export const buildChatContents = (
+  messages: Message[],
+  attachment?: HistoryAttachment,
+  maxContents: number = MAX_HISTORY_CONTENTS,
+  summarizedUntil?: number
+): GeminiContent[] => {
+  let firstUnsummarizedIndex = -1;
+  const mergedContents = messages.reduce<GeminiContent[]>((acc, msg) => {
+    const role = msg.sender === 'user' ? 'user' : 'model';
+    const parts: GeminiMessagePart[] = [];
+
+    if (attachment && msg.id === attachment.messageId) {
+      parts.push({ inlineData: attachment.inlineData });
+    }
+
+    if (msg.text?.trim()) {
+      parts.push({ text: msg.text.trim() });
+    }
+
+    if (parts.length === 0) {
+      return acc;
+    }
+
+    const lastContent = acc[acc.length - 1];
+    if (lastContent && lastContent.role === role) {
+      lastContent.parts.push(...parts);
+    } else {
+      acc.push({ role, parts });
+    }
+    if (firstUnsummarizedIndex === -1 && summarizedUntil !== undefined && new Date(msg.timestamp).getTime() > summarizedUntil) {
+      firstUnsummarizedIndex = acc.length - 1;
+    }
+    return acc;
+  }, []);
+
+  const firstUserIndex = mergedContents.findIndex(c => c.role === 'user');
+  if (firstUserIndex === -1) {
+    return [];
+  }
+
+  const contents = mergedContents.slice(firstUserIndex);
+  let start = Math.max(0, contents.length - maxContents);
+  if (firstUnsummarizedIndex !== -1) {
+    start = Math.min(start, Math.max(0, firstUnsummarizedIndex - firstUserIndex));
+  }
+  return contents.slice(start);
+};
@@ -0,0 +1,30 @@
+/** Saves a Blob as a file through a temporary anchor element. */
+export const downloadBlob = (blob: Blob, filename: string): void => {
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = filename;
+    document.body.appendChild(link);
+    link.click();
+    link.remove();
+    // Revoke on the next tick so the browser has started the download.
+    setTimeout(() => URL.revokeObjectURL(url), 0);
+};
+
+/** Reads an object URL or remote image into a self-contained data URL. */
+export const urlToDataUrl = async (url: string): Promise<string> => {
+    if (url.startsWith('data:')) return url;
+    const blob = await (await fetch(url)).blob();
+    return new Promise((resolve, reject) => {
+        const reader = new FileReader();
+        reader.onload = () => resolve(reader.result as string);
+        reader.onerror = () => reject(reader.error);
+        reader.readAsDataURL(blob);
+    });
+};
+
+/** Date stamp used in exported file names, e.g. "2025-03-14". */
+export const fileDateStamp = (date: Date = new Date()): string => {
+    const pad = (n: number) => String(n).padStart(2, '0');
+    return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+};
@@ -0,0 +1,27 @@
+import { describe, expect, it } from 'vitest';
+import type { Message } from '../types';
+import { collectGalleryItems } from './galleryService';
+
+const at = (minute: number) => new Date(2025, 0, 1, 10, minute);
+
+describe('collectGalleryItems', () => {
+  it('lists generated and edited images newest first with their metadata', () => {
+    const messages: Message[] = [
+      { id: 'a', sender: 'ai', text: '', timestamp: at(1), imageUrls: ['blob:a'], media: { source: 'generate', prompt: 'selfie in a cafe', style: 'Photorealistic' } },
+      { id: 'b', sender: 'user', text: '', timestamp: at(2), imageUrls: ['blob:user'] },
+      { id: 'c', sender: 'ai', text: '', timestamp: at(3), imageUrls: ['blob:c'], media: { source: 'edit', prompt: 'make it sunny' } },
+    ];
+    expect(collectGalleryItems(messages)).toEqual([
+      { source: 'edit', prompt: 'make it sunny', messageId: 'c', imageUrl: 'blob:c', timestamp: at(3) },
+      { source: 'generate', prompt: 'selfie in a cafe', style: 'Photorealistic', messageId: 'a', imageUrl: 'blob:a', timestamp: at(1) },
+    ]);
+  });
+
+  it('skips failed generations and images without generation metadata', () => {
+    const messages: Message[] = [
+      { id: 'a', sender: 'ai', text: '오류', timestamp: at(1), imageUrls: ['blob:a'], isError: true, media: { source: 'generate', prompt: 'x' } },
+      { id: 'b', sender: 'ai', text: '', timestamp: at(2), imageUrls: ['blob:legacy'] },
+    ];
+    expect(collectGalleryItems(messages)).toEqual([]);
+  });
+});
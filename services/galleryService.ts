@@ -0,0 +1,39 @@
+import type { GeneratedMedia, Message } from '../types';
+import * as storageService from './storageService';
+
+export interface GalleryItem extends GeneratedMedia {
+    messageId: string;
+    imageUrl: string;
+    timestamp: Date;
+}
+
+/** Every generated or edited image in the messages, newest first. */
+export const collectGalleryItems = (messages: Message[]): GalleryItem[] =>
+    messages
+        .filter(msg => msg.sender === 'ai' && msg.media && !msg.isError && !msg.isLoading && msg.imageUrls?.length)
+        .flatMap(msg => msg.imageUrls!.map(imageUrl => ({ ...msg.media!, messageId: msg.id, imageUrl, timestamp: new Date(msg.timestamp) })))
+        .sort((a, b) => b.timestamp.getTime() - a.timestamp.getTime());
+
+export interface Gallery {
+    items: GalleryItem[];
+    // Revokes the image URLs created for messages that weren't loaded; call it when the gallery closes.
+    release: () => void;
+}
+
+/**
+ * Gallery for the whole stored history, including pages that were never loaded.
+ * Loaded messages keep the image URLs the chat already shows.
+ */
+export const loadGallery = async (characterId: string, loaded: Message[]): Promise<Gallery> => {
+    const loadedById = new Map(loaded.map(msg => [msg.id, msg]));
+    const history = await storageService.getFullHistory(characterId, loaded);
+    const fromStorage = history.filter(msg => !loaded.includes(msg));
+    const urlsOf = (messages: Message[]) => messages.flatMap(msg => msg.imageUrls ?? []);
+    // Stored copies of loaded messages are replaced by the loaded ones, so their fresh URLs aren't needed.
+    urlsOf(fromStorage.filter(msg => loadedById.has(msg.id))).forEach(url => URL.revokeObjectURL(url));
+    const kept = urlsOf(fromStorage.filter(msg => !loadedById.has(msg.id)));
+    return {
+        items: collectGalleryItems(history.map(msg => loadedById.get(msg.id) ?? msg)),
+        release: () => kept.forEach(url => URL.revokeObjectURL(url)),
+    };
+};
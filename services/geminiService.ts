@@ -1,66 +1,92 @@
 
-import { GoogleGenAI, Modality } from "@google/genai";
+import { Type } from "@google/genai";
+import type { Schema } from "@google/genai";
 import type { Character, GeminiContent } from '../types';
+import { extractCompletedMessages, parseLegacyTurn, parseStructuredTurn, turnToResponse } from './responseParser';
+import type { GeminiResponse } from './responseParser';
+import { buildSystemPrompt } from './promptBuilder';
+import type { PromptContext } from './promptBuilder';
+import { getChatProvider } from './providers';
+import type { ChatRequest, ChatResult } from './providers';
 
-interface GeminiResponse {
-  texts: string[];
-  affinityAdjustment: number;
-  sexyMoodAdjustment: number;
-  hasLeft: boolean;
-  imageGenerationPrompt?: string;
-  editImage: boolean;
-  isError?: boolean;
-}
+// Schema for a single chat turn, mirroring the THOUGHT/MESSAGE/COMMANDS text format
+const characterTurnSchema: Schema = {
+  type: Type.OBJECT,
+  properties: {
+    thought: { type: Type.STRING, description: 'The character\'s private reasoning about the user\'s message. Never shown to the user.' },
+    messages: {
+      type: Type.ARRAY,
+      description: 'The chat bubbles to send, in order. Each entry is one short message; do not use "|||" separators.',
+      items: { type: Type.STRING },
+    },
+    affinityAdjustment: { type: Type.INTEGER, description: 'AFFINITY_ADJUSTMENT for this turn. Positive, negative or 0.' },
+    sexyMoodAdjustment: { type: Type.INTEGER, description: 'SEXY_MOOD_ADJUSTMENT for this turn. Positive, negative or 0.' },
+    commands: {
+      type: Type.ARRAY,
+      description: 'Commands to execute after the messages are shown. Empty when there is nothing to do.',
+      items: {
+        type: Type.OBJECT,
+        properties: {
+          type: { type: Type.STRING, enum: ['GENERATE_IMAGE', 'EDIT_IMAGE', 'REMEMBER', 'LEAVE_CHAT'] },
+          prompt: { type: Type.STRING, description: 'The English image prompt. Required for GENERATE_IMAGE; for EDIT_IMAGE, the English edit instruction.' },
+          fact: { type: Type.STRING, description: 'The fact to keep in long-term memory, as one short sentence. Required for REMEMBER.' },
+        },
+        required: ['type'],
+      },
+    },
+  },
+  required: ['thought', 'messages', 'affinityAdjustment', 'sexyMoodAdjustment', 'commands'],
+  // Messages come before commands so streamed bubbles can be shown while the rest of the turn is generated.
+  propertyOrdering: ['thought', 'affinityAdjustment', 'sexyMoodAdjustment', 'messages', 'commands'],
+};
 
-export const generateChatResponse = async (
-  character: Character,
-  contents: GeminiContent[]
-): Promise<GeminiResponse> => {
-  try {
-    if (contents.length === 0) {
-      return { texts: [], affinityAdjustment: 0, sexyMoodAdjustment: 0, hasLeft: false, editImage: false };
-    }
+const buildChatRequest = (character: Character, contents: GeminiContent[], context: PromptContext): ChatRequest =>
+  character.responseFormat !== 'legacy'
+    ? {
+        tier: 'fast',
+        contents,
+        systemInstruction: buildSystemPrompt(character, 'text', context),
+        responseMimeType: "application/json",
+        responseSchema: characterTurnSchema,
+      }
+    : { tier: 'fast', contents, systemInstruction: buildSystemPrompt(character, 'text', context) };
 
-    const currentAi = new GoogleGenAI({ apiKey: process.env.API_KEY });
-    const response = await currentAi.models.generateContent({
-      model: 'gemini-2.5-flash',
-      contents: contents,
-      config: {
-        systemInstruction: character.systemPrompt,
-      },
-    });
-    
+/**
+ * Validates a provider result (block reasons, missing candidates, finish reasons, empty text)
+ * and parses it into the response the chat UI consumes.
+ */
+const interpretChatResult = (response: ChatResult, useStructuredOutput: boolean): GeminiResponse => {
     // 1. Check for prompt-level blocks which indicate the entire request was rejected.
-    if (response.promptFeedback?.blockReason) {
-        const reason = response.promptFeedback.blockReason;
-        console.warn(`Prompt was blocked for safety reasons: ${reason}`, { feedback: response.promptFeedback });
+    if (response.blockReason) {
+        const reason = response.blockReason;
+        console.warn(`Prompt was blocked for safety reasons: ${reason}`, { feedback: response.raw });
         return {
             texts: ["미안, 내 안전 필터가 작동해서 그 메시지를 보낼 수 없어. 다른 주제로 이야기해줄래? 😇"],
             affinityAdjustment: -5,
             sexyMoodAdjustment: 0,
             hasLeft: false,
             editImage: false,
+            memories: [],
             isError: true,
         };
     }
 
-    const candidate = response.candidates?.[0];
-
     // 2. Check if a candidate was returned at all.
-    if (!candidate) {
-        console.error("Error generating chat response: No candidate in response.", { fullResponse: response });
+    if (!response.hasCandidate) {
+        console.error("Error generating chat response: No candidate in response.", { fullResponse: response.raw });
         return {
             texts: ["모델이 응답을 생성하지 않았어. 😥 잠시 후에 다시 시도해 줄래?"],
             affinityAdjustment: -1,
             sexyMoodAdjustment: 0,
             hasLeft: false,
             editImage: false,
+            memories: [],
             isError: true,
         };
     }
     
     // 3. Check for abnormal finish reasons. 'STOP' and 'SUCCESS' are good.
-    const { finishReason } = candidate;
+    const { finishReason } = response;
     if (finishReason && finishReason !== 'STOP' && finishReason !== 'SUCCESS') {
          console.warn(`Response finished with non-standard reason: ${finishReason}`);
          let errorMessage = "음... 뭐라고 답해야 할지 모르겠네. 😅 다시 한번 말해줄래?";
@@ -79,6 +105,7 @@ export const generateChatResponse = async (
             sexyMoodAdjustment: 0,
             hasLeft: false,
             editImage: false,
+            memories: [],
             isError: true,
         };
     }
@@ -88,116 +115,24 @@ export const generateChatResponse = async (
     
     // 5. Check for empty/null text content, which can happen even with a 'STOP' reason.
     if (rawResponse === null || typeof rawResponse === 'undefined' || rawResponse.trim() === '') {
-        console.warn("Error generating chat response: Response text is empty.", { candidate });
+        console.warn("Error generating chat response: Response text is empty.", { fullResponse: response.raw });
         return {
             texts: ["모델이 빈 응답을 보냈어. 대화가 막힌 것 같아. 다른 질문을 해볼까? 🧐"],
             affinityAdjustment: -1,
             sexyMoodAdjustment: 0,
             hasLeft: false,
             editImage: false,
+            memories: [],
             isError: true,
         };
     }
     
-    // 6. Parse the validated text response
-    let affinityAdjustment = 0;
-    let sexyMoodAdjustment = 0;
-    let hasLeft = false;
-    let editImage = false;
-    let imageGenerationPrompt: string | undefined = undefined;
-    
-    // First, parse the entire raw response for metadata and commands
-    const affinityMatch = rawResponse.match(/AFFINITY_ADJUSTMENT:\s*([+-]?\d+)/);
-    if (affinityMatch?.[1]) {
-        affinityAdjustment = parseInt(affinityMatch[1], 10);
-    }
-
-    const sexyMoodMatch = rawResponse.match(/SEXY_MOOD_ADJUSTMENT:\s*([+-]?\d+)/);
-    if (sexyMoodMatch?.[1]) {
-        sexyMoodAdjustment = parseInt(sexyMoodMatch[1], 10);
-    }
-
-    hasLeft = /LEAVE_CHAT/.test(rawResponse);
-    editImage = /EDIT_IMAGE/.test(rawResponse);
-    
-    const imageGenerateRegex = /GENERATE_IMAGE:"([^"]+)"/g;
-    const imageGenerateMatch = imageGenerateRegex.exec(rawResponse);
-    if (imageGenerateMatch?.[1]) {
-        imageGenerationPrompt = imageGenerateMatch[1];
-    }
-    
-    // Next, extract the user-facing message content, which may need cleaning
-    let messageContent = '';
-    let parsedSuccessfully = false;
-
-    // 1. Attempt to parse as JSON first, as it's a common structured response.
-    try {
-        const cleanedJsonString = rawResponse.trim().replace(/^```json\s*|```\s*$/g, '');
-        const parsedJson = JSON.parse(cleanedJsonString);
-        if (parsedJson && typeof parsedJson.MESSAGE === 'string') {
-            messageContent = parsedJson.MESSAGE;
-            parsedSuccessfully = true;
-        }
-    } catch (e) {
-        // Not valid JSON, will proceed to regex parsing.
-    }
-
-    // 2. If JSON parsing failed, use robust regex for plain text format.
-    if (!parsedSuccessfully) {
-        const messageMatch = rawResponse.match(/(?:MESSAGE|inMESSAGE):([\s\S]*?)(?:COMMANDS:|$)/si);
-        if (messageMatch && typeof messageMatch[1] === 'string') {
-            messageContent = messageMatch[1];
-            parsedSuccessfully = true;
-        }
-    }
-    
-    // 3. Fallback if both primary methods fail to extract a clean message.
-    if (!parsedSuccessfully) {
-        messageContent = rawResponse;
-    }
-    
-    // 4. Aggressively clean the extracted message content to remove any metadata that shouldn't be displayed.
-    let finalMessage = messageContent
-        .replace(/AFFINITY_ADJUSTMENT:\s*[+-]?\d+,?/g, '')
-        .replace(/SEXY_MOOD_ADJUSTMENT:\s*[+-]?\d+,?/g, '')
-        .replace(/GENERATE_IMAGE:"([^"]+)"/g, '')
-        .replace(/LEAVE_CHAT/g, '')
-        .replace(/EDIT_IMAGE/g, '')
-        .replace(/COMMANDS:[\s\S]*/, '')
-        .replace(/THOUGHT:[\s\S]*?(?:MESSAGE|inMESSAGE):/si, '')
-        .replace(/\\"/g, '"')
-        .replace(/\\n/g, '\n')
-        .trim();
-
-    if (finalMessage.startsWith(`"`) && finalMessage.endsWith(`"`)) {
-        finalMessage = finalMessage.substring(1, finalMessage.length - 1).trim();
-    }
-    
-    const texts = finalMessage.split('|||').map(m => m.trim()).filter(m => m.length > 0);
-
-    // Final sanity check
-    if (texts.length === 0 && !imageGenerationPrompt && !editImage) {
-        console.warn("Parsing resulted in an empty message. Using raw response as fallback.", { rawResponse });
-        if (rawResponse.trim()) {
-           // If the raw response is a JSON object we failed to parse, don't show it.
-           if (rawResponse.trim().startsWith('{') && rawResponse.trim().endsWith('}')) {
-             texts.push("캐릭터가 응답하는 데 문제가 발생했어요. 😥");
-           } else {
-             texts.push(rawResponse);
-           }
-        }
-    }
-
-    return {
-      texts,
-      affinityAdjustment,
-      sexyMoodAdjustment,
-      hasLeft,
-      imageGenerationPrompt,
-      editImage,
-    };
+    // 6. Parse the validated response. Structured JSON is preferred; the legacy text format is the fallback.
+    const turn = (useStructuredOutput && parseStructuredTurn(rawResponse)) || parseLegacyTurn(rawResponse);
+    return turnToResponse(turn, rawResponse);
+};
 
-  } catch (error) {
+const toErrorResponse = (error: unknown): GeminiResponse => {
     console.error("Error generating chat response:", error);
     let errorMessage = "미안, 지금은 답장을 보낼 수 없어. 😢 나중에 다시 시도해줘.";
 
@@ -249,7 +184,73 @@ export const generateChatResponse = async (
       sexyMoodAdjustment: 0,
       hasLeft: false,
       editImage: false,
+      memories: [],
       isError: true,
     };
+};
+
+export const generateChatResponse = async (
+  character: Character,
+  contents: GeminiContent[],
+  context: PromptContext = {}
+): Promise<GeminiResponse> => {
+  try {
+    if (contents.length === 0) {
+      return { texts: [], affinityAdjustment: 0, sexyMoodAdjustment: 0, hasLeft: false, editImage: false, memories: [] };
+    }
+
+    const response = await getChatProvider().generate(buildChatRequest(character, contents, context));
+    return interpretChatResult(response, character.responseFormat !== 'legacy');
+  } catch (error) {
+    return toErrorResponse(error);
+  }
+};
+
+/**
+ * Streams a chat turn and calls `onMessage` for each chat bubble as soon as it is complete.
+ * Every bubble of a successful turn goes through `onMessage`, including the ones only known once the stream ends.
+ * Bubbles emitted mid-stream can differ from the returned `texts`, which are authoritative; the caller reconciles them.
+ * Error responses are not emitted; their texts are returned for the caller to show.
+ */
+export const streamChatResponse = async (
+  character: Character,
+  contents: GeminiContent[],
+  onMessage: (text: string, index: number) => void,
+  context: PromptContext = {}
+): Promise<GeminiResponse> => {
+  try {
+    if (contents.length === 0) {
+      return { texts: [], affinityAdjustment: 0, sexyMoodAdjustment: 0, hasLeft: false, editImage: false, memories: [] };
+    }
+
+    const useStructuredOutput = character.responseFormat !== 'legacy';
+    let aggregated: ChatResult = { hasCandidate: false, text: '', raw: [] };
+    let emittedCount = 0;
+
+    for await (const chunk of getChatProvider().generateStream(buildChatRequest(character, contents, context))) {
+        aggregated = {
+            blockReason: chunk.blockReason ?? aggregated.blockReason,
+            finishReason: chunk.finishReason ?? aggregated.finishReason,
+            hasCandidate: aggregated.hasCandidate || chunk.hasCandidate,
+            text: (aggregated.text ?? '') + (chunk.text ?? ''),
+            raw: [...(aggregated.raw as unknown[]), chunk.raw],
+        };
+        const completed = extractCompletedMessages(aggregated.text ?? '', useStructuredOutput);
+        while (emittedCount < completed.length) {
+            onMessage(completed[emittedCount], emittedCount);
+            emittedCount++;
+        }
+    }
+
+    const response = interpretChatResult(aggregated, useStructuredOutput);
+    if (!response.isError) {
+        while (emittedCount < response.texts.length) {
+            onMessage(response.texts[emittedCount], emittedCount);
+            emittedCount++;
+        }
+    }
+    return response;
+  } catch (error) {
+    return toErrorResponse(error);
   }
 };
@@ -0,0 +1,170 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import type { ImageJob } from '../types';
+import type { MediaResult } from './mediaService';
+import { createImageJobQueue, MAX_RATE_LIMIT_RETRIES } from './imageJobQueue';
+import type { ImageJobEvent, NewImageJob } from './imageJobQueue';
+
+const newJob = (id: string, overrides: Partial<NewImageJob> = {}): NewImageJob => ({
+  id,
+  profile: 'female',
+  characterId: 'char-1',
+  purpose: 'message',
+  kind: 'generate',
+  prompt: 'selfie',
+  style: 'Photorealistic',
+  loadingText: '사진을 만드는 중...',
+  ...overrides,
+});
+
+// A run function whose calls stay pending until the test settles them.
+const controllableRun = () => {
+  const pending = new Map<string, (result: MediaResult) => void>();
+  const run = vi.fn((job: ImageJob) => new Promise<MediaResult>(resolve => pending.set(job.id, resolve)));
+  const settle = async (jobId: string, result: MediaResult) => {
+    pending.get(jobId)!(result);
+    pending.delete(jobId);
+    await vi.advanceTimersByTimeAsync(0);
+  };
+  return { run, pending, settle };
+};
+
+const setup = (stored: ImageJob[] = []) => {
+  const { run, pending, settle } = controllableRun();
+  const persist = vi.fn(async () => {});
+  const remove = vi.fn(async () => {});
+  const load = vi.fn(async (profile: string) => stored.filter(job => job.profile === profile));
+  const queue = createImageJobQueue({ run, persist, remove, load, maxConcurrent: 2, retryBaseDelayMs: 1000 });
+  const events: Array<[string, ImageJobEvent]> = [];
+  queue.subscribe((job, event) => events.push([job.id, event]));
+  return { queue, run, pending, settle, persist, remove, events };
+};
+
+describe('createImageJobQueue', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+    vi.spyOn(Math, 'random').mockReturnValue(0);
+  });
+  afterEach(() => {
+    vi.useRealTimers();
+    vi.restoreAllMocks();
+  });
+
+  it('runs at most the concurrency cap at once and starts the next job when one finishes', async () => {
+    const { queue, run, settle, persist, remove, events } = setup();
+    await queue.activate('female');
+    await queue.enqueue(newJob('a'));
+    await queue.enqueue(newJob('b'));
+    await queue.enqueue(newJob('c'));
+
+    expect(run.mock.calls.map(([job]) => job.id)).toEqual(['a', 'b']);
+    expect(persist).toHaveBeenCalledTimes(3);
+
+    await settle('a', { imageUrl: 'data:a' });
+    expect(events).toEqual([['a', { type: 'finished', result: { imageUrl: 'data:a' } }]]);
+    expect(remove).toHaveBeenCalledWith('a');
+    expect(run.mock.calls.map(([job]) => job.id)).toEqual(['a', 'b', 'c']);
+  });
+
+  it('retries a rate-limited job with exponential backoff and gives up after the retry limit', async () => {
+    const { queue, run, settle, events } = setup();
+    await queue.activate('female');
+    await queue.enqueue(newJob('a'));
+
+    const delays: number[] = [];
+    for (let attempt = 1; attempt <= MAX_RATE_LIMIT_RETRIES; attempt++) {
+      await settle('a', { error: '429', rateLimited: true });
+      const [, event] = events[events.length - 1];
+      expect(event.type).toBe('retrying');
+      if (event.type === 'retrying') delays.push(event.delayMs);
+      expect(run).toHaveBeenCalledTimes(attempt);
+      await vi.advanceTimersByTimeAsync(delays[delays.length - 1]);
+      expect(run).toHaveBeenCalledTimes(attempt + 1);
+    }
+    expect(delays).toEqual([1000, 2000, 4000, 8000]);
+
+    await settle('a', { error: '429', rateLimited: true });
+    expect(events[events.length - 1]).toEqual(['a', { type: 'finished', result: { error: '429', rateLimited: true } }]);
+  });
+
+  it('does not hold a slot while a rate-limited job waits', async () => {
+    const { queue, run, settle } = setup();
+    await queue.activate('female');
+    await queue.enqueue(newJob('a'));
+    await queue.enqueue(newJob('b'));
+    await queue.enqueue(newJob('c'));
+
+    await settle('a', { rateLimited: true, error: '429' });
+    expect(run.mock.calls.map(([job]) => job.id)).toEqual(['a', 'b', 'c']);
+  });
+
+  it('cancels waiting, backing-off and running jobs, discarding a running result', async () => {
+    const { queue, run, settle, events, remove } = setup();
+    await queue.activate('female');
+    await queue.enqueue(newJob('a'));
+    await queue.enqueue(newJob('b'));
+    await queue.enqueue(newJob('c'));
+
+    expect(queue.cancel('c')).toBe(true);
+    expect(queue.cancel('a')).toBe(true);
+    expect(events).toEqual([
+      ['c', { type: 'finished', result: { cancelled: true } }],
+      ['a', { type: 'finished', result: { cancelled: true } }],
+    ]);
+    expect(remove).toHaveBeenCalledWith('c');
+
+    await settle('a', { imageUrl: 'data:a' });
+    expect(events).toHaveLength(2);
+
+    await settle('b', { rateLimited: true, error: '429' });
+    expect(queue.cancel('b')).toBe(true);
+    await vi.advanceTimersByTimeAsync(60_000);
+    expect(run).toHaveBeenCalledTimes(2);
+    expect(queue.cancel('b')).toBe(false);
+  });
+
+  it('cancels every job of a character', async () => {
+    const { queue, events } = setup();
+    await queue.activate('female');
+    await queue.enqueue(newJob('a'));
+    await queue.enqueue(newJob('b', { characterId: 'char-2' }));
+    await queue.enqueue(newJob('c'));
+
+    queue.cancelCharacterJobs('female', 'char-1');
+    expect(events.map(([id]) => id)).toEqual(['a', 'c']);
+  });
+
+  it('only starts jobs of the active profile and resumes persisted ones on activation', async () => {
+    const stored: ImageJob[] = [{ ...newJob('stored', { profile: 'male' }), createdAt: 1, attempts: 0 }];
+    const { queue, run } = setup(stored);
+    await queue.activate('female');
+    await queue.enqueue(newJob('queued-for-male', { profile: 'male' }));
+    expect(run).not.toHaveBeenCalled();
+
+    const pending = await queue.activate('male');
+    expect(pending.map(job => job.id).sort()).toEqual(['queued-for-male', 'stored']);
+    expect(run).toHaveBeenCalledTimes(2);
+  });
+
+  it('logs storage failures while retrying or finishing a job instead of leaving them unhandled', async () => {
+    const { queue, settle, persist, remove, events } = setup();
+    const consoleError = vi.spyOn(console, 'error').mockImplementation(() => {});
+    await queue.activate('female');
+    await queue.enqueue(newJob('a'));
+    persist.mockRejectedValue(new Error('QuotaExceededError'));
+    remove.mockRejectedValue(new Error('QuotaExceededError'));
+
+    await settle('a', { error: '429', rateLimited: true });
+    await vi.advanceTimersByTimeAsync(1000);
+    await settle('a', { imageUrl: 'data:a' });
+    expect(events.map(([, event]) => event.type)).toEqual(['retrying', 'finished']);
+    expect(consoleError).toHaveBeenCalledTimes(2);
+  });
+
+  it('ignores a job id that is already queued', async () => {
+    const { queue, run } = setup();
+    await queue.activate('female');
+    const first = await queue.enqueue(newJob('a'));
+    expect(await queue.enqueue(newJob('a', { prompt: 'other' }))).toBe(first);
+    expect(run).toHaveBeenCalledTimes(1);
+  });
+});
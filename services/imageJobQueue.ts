@@ -0,0 +1,159 @@
+import type { ImageJob, UserGender } from '../types';
+import * as mediaService from './mediaService';
+import type { MediaResult } from './mediaService';
+import * as storageService from './storageService';
+
+export const MAX_CONCURRENT_IMAGE_JOBS = 2;
+export const MAX_RATE_LIMIT_RETRIES = 4;
+const RETRY_BASE_DELAY_MS = 2000;
+
+export type ImageJobResult = MediaResult & { cancelled?: boolean };
+
+export type ImageJobEvent =
+    | { type: 'retrying'; delayMs: number }
+    | { type: 'finished'; result: ImageJobResult };
+
+export type ImageJobListener = (job: ImageJob, event: ImageJobEvent) => void;
+
+export interface ImageJobQueueDeps {
+    run: (job: ImageJob) => Promise<MediaResult>;
+    persist: (job: ImageJob) => Promise<void>;
+    remove: (jobId: string) => Promise<void>;
+    load: (profile: UserGender) => Promise<ImageJob[]>;
+    maxConcurrent?: number;
+    retryBaseDelayMs?: number;
+}
+
+export type NewImageJob = Omit<ImageJob, 'createdAt' | 'attempts'>;
+
+/**
+ * Runs image jobs with a global concurrency cap. Jobs are persisted until they finish, so a reload picks them
+ * up again through `activate`. Only jobs of the active profile are started; a 429 puts the job back in line
+ * after an exponential backoff, without holding a slot while it waits.
+ */
+export const createImageJobQueue = (deps: ImageJobQueueDeps) => {
+    const maxConcurrent = deps.maxConcurrent ?? MAX_CONCURRENT_IMAGE_JOBS;
+    const retryBaseDelayMs = deps.retryBaseDelayMs ?? RETRY_BASE_DELAY_MS;
+
+    const jobs = new Map<string, ImageJob>();
+    const waiting: ImageJob[] = [];
+    const running = new Set<string>();
+    const retryTimers = new Map<string, ReturnType<typeof setTimeout>>();
+    const listeners = new Set<ImageJobListener>();
+    let activeProfile: UserGender | null = null;
+
+    const emit = (job: ImageJob, event: ImageJobEvent) => listeners.forEach(listener => listener(job, event));
+
+    const finish = (job: ImageJob, result: ImageJobResult) => {
+        jobs.delete(job.id);
+        deps.remove(job.id).catch(error => console.error(`Failed to remove finished image job '${job.id}'`, error));
+        emit(job, { type: 'finished', result });
+    };
+
+    const pump = () => {
+        while (running.size < maxConcurrent) {
+            const index = waiting.findIndex(job => job.profile === activeProfile);
+            if (index === -1) return;
+            const [job] = waiting.splice(index, 1);
+            void start(job);
+        }
+    };
+
+    const start = async (job: ImageJob) => {
+        running.add(job.id);
+        job.attempts++;
+        let result: MediaResult;
+        try {
+            result = await deps.run(job);
+        } catch (error) {
+            result = { error: error instanceof Error ? error.message : String(error) };
+        } finally {
+            running.delete(job.id);
+        }
+
+        // Cancelled while running: the listener has already been told.
+        if (!jobs.has(job.id)) {
+            pump();
+            return;
+        }
+
+        if (result.rateLimited && job.attempts <= MAX_RATE_LIMIT_RETRIES) {
+            const delayMs = Math.round(retryBaseDelayMs * 2 ** (job.attempts - 1) * (1 + Math.random() * 0.25));
+            deps.persist(job).catch(error => console.error(`Failed to save the retry count of image job '${job.id}'`, error));
+            retryTimers.set(job.id, setTimeout(() => {
+                retryTimers.delete(job.id);
+                waiting.push(job);
+                pump();
+            }, delayMs));
+            emit(job, { type: 'retrying', delayMs });
+        } else {
+            finish(job, result);
+        }
+        pump();
+    };
+
+    /** Stops a job. A running request can't be aborted, but its result is discarded. Returns false for unknown ids. */
+    const cancel = (jobId: string): boolean => {
+        const job = jobs.get(jobId);
+        if (!job) return false;
+        const waitingIndex = waiting.indexOf(job);
+        if (waitingIndex !== -1) waiting.splice(waitingIndex, 1);
+        clearTimeout(retryTimers.get(jobId));
+        retryTimers.delete(jobId);
+        finish(job, { cancelled: true });
+        return true;
+    };
+
+    const add = (job: ImageJob) => {
+        jobs.set(job.id, job);
+        waiting.push(job);
+    };
+
+    return {
+        subscribe(listener: ImageJobListener): () => void {
+            listeners.add(listener);
+            return () => { listeners.delete(listener); };
+        },
+
+        /** Queues a job unless one with the same id is already known. Returns the queued (or existing) job. */
+        async enqueue(newJob: NewImageJob): Promise<ImageJob> {
+            const existing = jobs.get(newJob.id);
+            if (existing) return existing;
+            const job: ImageJob = { ...newJob, createdAt: Date.now(), attempts: 0 };
+            add(job);
+            await deps.persist(job);
+            pump();
+            return job;
+        },
+
+        /** Switches to a profile, picking up its persisted jobs. Returns every unfinished job of that profile. */
+        async activate(profile: UserGender): Promise<ImageJob[]> {
+            activeProfile = profile;
+            for (const job of await deps.load(profile)) {
+                if (!jobs.has(job.id)) add(job);
+            }
+            pump();
+            return [...jobs.values()].filter(job => job.profile === profile);
+        },
+
+        cancel,
+
+        cancelCharacterJobs(profile: UserGender, characterId: string): void {
+            [...jobs.values()]
+                .filter(job => job.profile === profile && job.characterId === characterId)
+                .forEach(job => cancel(job.id));
+        },
+    };
+};
+
+export type ImageJobQueue = ReturnType<typeof createImageJobQueue>;
+
+export const imageJobQueue = createImageJobQueue({
+    run: async (job) => {
+        if (job.kind === 'generate') return mediaService.generateImage(job.prompt, job.style, job.reference);
+        return job.sourceImage ? mediaService.editImage(job.sourceImage, job.prompt) : { error: '수정할 사진을 찾지 못했어요.' };
+    },
+    persist: storageService.saveImageJob,
+    remove: storageService.deleteImageJob,
+    load: storageService.getImageJobs,
+});
@@ -1,9 +1,10 @@
 
 
-import { GoogleGenAI, Modality } from "@google/genai";
 import type { ImageStyle } from '../types';
+import { getImageProvider } from './providers';
+import type { ImageResult, InlineImage } from './providers';
 
-const fileToBase64 = (file: File): Promise<string> =>
+const fileToBase64 = (file: Blob): Promise<string> =>
   new Promise((resolve, reject) => {
     const reader = new FileReader();
     reader.readAsDataURL(file);
@@ -15,26 +16,30 @@ const fileToBase64 = (file: File): Promise<string> =>
     reader.onerror = error => reject(error);
   });
 
-const processMediaApiResponse = (response: any, action: 'generation' | 'editing'): {imageUrl?: string, error?: string} => {
+export interface MediaResult {
+    imageUrl?: string;
+    error?: string;
+    rateLimited?: boolean; // the backend answered 429; worth retrying later
+}
+
+const processMediaApiResponse = (response: ImageResult, action: 'generation' | 'editing'): MediaResult => {
     const actionText = action === 'generation' ? '생성' : '편집';
 
     // 1. Check for prompt-level blocks which indicate the entire request was rejected.
-    if (response.promptFeedback?.blockReason) {
-        const reason = response.promptFeedback.blockReason;
-        console.warn(`Image ${action} blocked due to prompt feedback: ${reason}`, { feedback: response.promptFeedback });
+    if (response.blockReason) {
+        const reason = response.blockReason;
+        console.warn(`Image ${action} blocked due to prompt feedback: ${reason}`, { feedback: response.raw });
         return { error: `이미지 ${actionText} 요청이 거부되었어요. (이유: ${reason})` };
     }
 
-    const candidate = response.candidates?.[0];
-
     // 2. Check if a candidate was returned at all.
-    if (!candidate) {
-        console.error(`Image ${action} failed: No candidate in response`, { fullResponse: response });
+    if (!response.hasCandidate) {
+        console.error(`Image ${action} failed: No candidate in response`, { fullResponse: response.raw });
         return { error: `이미지를 ${actionText}하지 못했어요. 모델이 응답을 생성하지 않았습니다.` };
     }
 
     // 3. Check for abnormal finish reasons. 'STOP' and 'SUCCESS' are good.
-    const { finishReason } = candidate;
+    const { finishReason } = response;
     if (finishReason && finishReason !== 'STOP' && finishReason !== 'SUCCESS') {
          console.warn(`Image ${action} finished with non-standard reason: ${finishReason}`);
          if (finishReason === 'SAFETY' || finishReason === 'RECITATION' || finishReason === 'PROHIBITED_CONTENT') {
@@ -44,33 +49,31 @@ const processMediaApiResponse = (response: any, action: 'generation' | 'editing'
     }
 
     // 4. Try to find the image data in the response parts.
-    const imagePart = candidate.content?.parts?.find((part: any) => part.inlineData);
-    if (imagePart?.inlineData) {
-        const base64ImageBytes: string = imagePart.inlineData.data;
-        const imageUrl = `data:${imagePart.inlineData.mimeType};base64,${base64ImageBytes}`;
+    if (response.image) {
+        const imageUrl = `data:${response.image.mimeType};base64,${response.image.data}`;
         return { imageUrl };
     }
     
     // 5. If no image, check for an explanatory text response from the model.
-    const textPart = response.text; // .text is a convenient accessor for the first text part.
+    const textPart = response.text;
     if (textPart) {
         console.warn(`Image ${action} returned a text response instead of an image:`, textPart);
         return { error: `이미지 ${actionText}에 실패하고 다음 메시지를 받았어요: "${textPart}"` };
     }
     
     // 6. If we reach here, the response is valid but contains neither image nor text. This is the original error case.
-    console.error(`Image ${action} failed: No image data in response`, { fullResponse: response });
+    console.error(`Image ${action} failed: No image data in response`, { fullResponse: response.raw });
     return { error: `이미지를 ${actionText}하지 못했어요. 응답에 이미지 데이터가 포함되지 않았습니다.` };
 };
 
-const handleApiError = (e: unknown, action: 'generation' | 'editing'): { error: string } => {
+const handleApiError = (e: unknown, action: 'generation' | 'editing'): MediaResult => {
     console.error(`Image ${action} failed with exception:`, e);
     const actionText = action === 'generation' ? '생성' : '편집';
     let errorMessage = `이미지 ${actionText} 중 오류가 발생했어요.`;
     if (e instanceof Error) {
         const msg = e.message.toLowerCase();
         if (msg.includes('429') || msg.includes('resource_exhausted')) {
-            errorMessage = "API 사용량 한도를 초과했습니다. Google AI Studio에서 요금제 및 결제 세부 정보를 확인해주세요.";
+            return { error: "API 사용량 한도를 초과했습니다. Google AI Studio에서 요금제 및 결제 세부 정보를 확인해주세요.", rateLimited: true };
         } else if (msg.includes('api key not valid')) {
             errorMessage = "API 키가 유효하지 않습니다. Google AI Studio에서 키를 확인해주세요.";
         } else if (msg.includes('safety')) {
@@ -91,15 +94,16 @@ const styleSuffixes: Record<ImageStyle, string> = {
 };
 
 
-export const generateImage = async (prompt: string, style: ImageStyle): Promise<{imageUrl?: string, error?: string}> => {
+const REFERENCE_IDENTITY_INSTRUCTION = 'The attached image is the identity reference for this character. If a person appears in the image you create, it must be the same person: keep their face, facial features, skin tone and hairstyle identical to the reference, while following the pose, outfit, setting and composition described below. Do not copy the reference photo itself.\n\n';
+
+/**
+ * Generates an image from a prompt. With a `reference`, the character in the result keeps the reference's face,
+ * so every selfie shows the same person.
+ */
+export const generateImage = async (prompt: string, style: ImageStyle, reference?: InlineImage): Promise<MediaResult> => {
     try {
-        const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
-        const finalPrompt = prompt + (styleSuffixes[style] || '');
-        const response = await ai.models.generateContent({
-            model: 'gemini-2.5-flash-image',
-            contents: { parts: [{ text: finalPrompt }] },
-            config: { responseModalities: [Modality.IMAGE] },
-        });
+        const finalPrompt = (reference ? REFERENCE_IDENTITY_INSTRUCTION : '') + prompt + (styleSuffixes[style] || '');
+        const response = await getImageProvider().generateImage(finalPrompt, reference);
         return processMediaApiResponse(response, 'generation');
     } catch (e) {
         return handleApiError(e, 'generation');
@@ -107,23 +111,10 @@ export const generateImage = async (prompt: string, style: ImageStyle): Promise<
 }
 
 
-export const editImage = async (file: File, prompt: string): Promise<{imageUrl?: string, error?: string}> => {
+export const editImage = async (file: Blob, prompt: string): Promise<MediaResult> => {
     try {
-        const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
         const base64Data = await fileToBase64(file);
-        
-        const response = await ai.models.generateContent({
-            model: 'gemini-2.5-flash-image',
-            contents: {
-                parts: [
-                    { inlineData: { data: base64Data, mimeType: file.type } },
-                    { text: prompt },
-                ],
-            },
-            config: {
-                responseModalities: [Modality.IMAGE],
-            },
-        });
+        const response = await getImageProvider().editImage({ data: base64Data, mimeType: file.type }, prompt);
         return processMediaApiResponse(response, 'editing');
     } catch (e) {
         return handleApiError(e, 'editing');
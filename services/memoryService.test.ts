@@ -0,0 +1,39 @@
+import { describe, expect, it } from 'vitest';
+import type { CharacterMemory, Message } from '../types';
+import { buildMemoryQuery, selectRelevantMemories, tokenize } from './memoryService';
+
+const memory = (id: string, text: string, createdAt: number): CharacterMemory => ({ id, text, createdAt });
+
+describe('tokenize', () => {
+  it('adds syllable bigrams for Korean words so particles still match', () => {
+    const terms = tokenize('민준이는 Coffee를 좋아해!');
+    expect(terms.has('민준')).toBe(true);
+    expect(terms.has('coffee를')).toBe(true);
+    expect(terms.has('좋아해')).toBe(true);
+  });
+});
+
+describe('selectRelevantMemories', () => {
+  const memories = [
+    memory('a', '유저의 이름은 민준이다.', 1),
+    memory('b', '유저는 고양이 두 마리를 키운다.', 2),
+    memory('c', '유저는 매운 음식을 못 먹는다.', 3),
+  ];
+
+  it('puts the memories that share terms with the query first', () => {
+    expect(selectRelevantMemories(memories, '오늘 고양이가 아팠어', 1).map(m => m.id)).toEqual(['b']);
+  });
+
+  it('fills the remaining slots with the newest memories', () => {
+    expect(selectRelevantMemories(memories, '고양이 사진 볼래?').map(m => m.id)).toEqual(['b', 'c', 'a']);
+    expect(selectRelevantMemories(memories, '안녕', 2).map(m => m.id)).toEqual(['c', 'b']);
+  });
+});
+
+describe('buildMemoryQuery', () => {
+  it('uses the latest text messages only', () => {
+    const messages: Message[] = ['하나', '둘', '셋', '넷', '다섯'].map((text, i) => ({ id: `m${i}`, text, sender: 'user', timestamp: new Date(i) }));
+    messages.push({ id: 'err', text: '오류', sender: 'ai', timestamp: new Date(9), isError: true });
+    expect(buildMemoryQuery(messages)).toBe('둘\n셋\n넷\n다섯');
+  });
+});
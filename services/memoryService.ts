@@ -0,0 +1,79 @@
+import type { CharacterMemory, Message } from '../types';
+import * as storageService from './storageService';
+
+// How many remembered facts go into a prompt.
+export const MAX_PROMPT_MEMORIES = 8;
+// How many of the latest messages make up the retrieval query.
+const QUERY_MESSAGES = 4;
+const MAX_MEMORY_LENGTH = 200;
+
+const HANGUL = /[가-힣]/;
+
+/**
+ * Splits text into index terms. Korean words also yield their syllable bigrams,
+ * so '민준이야' and '민준이는' both match a memory mentioning '민준'.
+ */
+export const tokenize = (text: string): Set<string> => {
+    const terms = new Set<string>();
+    for (const word of text.toLowerCase().split(/[^\p{L}\p{N}]+/u)) {
+        if (word.length < 2) continue;
+        terms.add(word);
+        if (HANGUL.test(word)) {
+            for (let i = 0; i < word.length - 1; i++) terms.add(word.slice(i, i + 2));
+        }
+    }
+    return terms;
+};
+
+const normalize = (text: string) => text.replace(/\s+/g, ' ').trim();
+
+/** The text the memories are matched against: the latest few messages of the conversation. */
+export const buildMemoryQuery = (messages: Message[]): string =>
+    messages.filter(msg => !msg.isLoading && !msg.isError && msg.text)
+        .slice(-QUERY_MESSAGES)
+        .map(msg => msg.text)
+        .join('\n');
+
+/**
+ * Ranks memories by how many of their terms appear in the query, favouring newer facts on ties.
+ * Slots that no memory matches are filled with the newest facts, so a short memory list is always sent whole.
+ */
+export const selectRelevantMemories = (memories: CharacterMemory[], query: string, limit: number = MAX_PROMPT_MEMORIES): CharacterMemory[] => {
+    const queryTerms = tokenize(query);
+    const scored = memories.map(memory => {
+        const terms = tokenize(memory.text);
+        let overlap = 0;
+        terms.forEach(term => { if (queryTerms.has(term)) overlap++; });
+        return { memory, score: terms.size ? overlap / Math.sqrt(terms.size) : 0 };
+    });
+    scored.sort((a, b) => b.score - a.score || b.memory.createdAt - a.memory.createdAt);
+    return scored.slice(0, limit).map(({ memory }) => memory);
+};
+
+/** Stores new facts from REMEMBER commands, skipping ones the character already remembers. */
+export const rememberFacts = async (characterId: string, facts: string[]): Promise<CharacterMemory[]> => {
+    const existing = new Set((await storageService.getMemories(characterId)).map(memory => normalize(memory.text)));
+    const now = Date.now();
+    const added: CharacterMemory[] = [];
+    for (const fact of facts) {
+        const text = normalize(fact).slice(0, MAX_MEMORY_LENGTH);
+        if (!text || existing.has(text)) continue;
+        existing.add(text);
+        added.push({ id: `memory-${now}-${added.length}`, text, createdAt: now });
+    }
+    await storageService.saveMemories(characterId, added);
+    return added;
+};
+
+/**
+ * Loads a character's memories and picks the ones most relevant to the recent messages.
+ * A storage failure is logged and recalls nothing, so the reply or call goes ahead without memories.
+ */
+export const recallMemories = async (characterId: string, messages: Message[]): Promise<CharacterMemory[]> => {
+    try {
+        return selectRelevantMemories(await storageService.getMemories(characterId), buildMemoryQuery(messages));
+    } catch (error) {
+        console.error(`Failed to recall memories for '${characterId}'`, error);
+        return [];
+    }
+};
@@ -0,0 +1,60 @@
+/// <reference types="vite/client" />
+import captureWorkletUrl from './pcmCaptureWorklet.ts?worker&url';
+import { createPcmChunker, PCM_CAPTURE_PROCESSOR } from './pcmAudio';
+
+// The fallback's block size at the context's own rate; the chunker re-cuts it into 16 kHz chunks.
+const FALLBACK_BUFFER_SIZE = 4096;
+
+export interface MicCapture {
+    stop: () => void;
+}
+
+const startWorkletCapture = async (context: AudioContext, source: MediaStreamAudioSourceNode, onChunk: (pcm: Int16Array) => void): Promise<MicCapture> => {
+    await context.audioWorklet.addModule(captureWorkletUrl);
+    const node = new AudioWorkletNode(context, PCM_CAPTURE_PROCESSOR, { numberOfInputs: 1, numberOfOutputs: 1, outputChannelCount: [1], channelCount: 1 });
+    node.port.onmessage = (event: MessageEvent<Int16Array>) => onChunk(event.data);
+    source.connect(node);
+    // Connected to the destination so every browser keeps pulling it; the processor writes silence.
+    node.connect(context.destination);
+    return {
+        stop: () => {
+            node.port.onmessage = null;
+            node.port.postMessage('stop');
+            source.disconnect();
+            node.disconnect();
+        },
+    };
+};
+
+const startScriptProcessorCapture = (context: AudioContext, source: MediaStreamAudioSourceNode, onChunk: (pcm: Int16Array) => void): MicCapture => {
+    const chunker = createPcmChunker(context.sampleRate);
+    const processor = context.createScriptProcessor(FALLBACK_BUFFER_SIZE, 1, 1);
+    processor.onaudioprocess = (event) => chunker.push(event.inputBuffer.getChannelData(0)).forEach(onChunk);
+    source.connect(processor);
+    // A ScriptProcessorNode only runs while connected to the destination; it outputs silence.
+    processor.connect(context.destination);
+    return {
+        stop: () => {
+            processor.onaudioprocess = null;
+            source.disconnect();
+            processor.disconnect();
+        },
+    };
+};
+
+/**
+ * Streams the mic as 16 kHz Int16 chunks. Resampling, conversion and chunking run in an AudioWorklet,
+ * off the main thread; browsers without worklets, or where the module fails to load, fall back to
+ * a ScriptProcessorNode doing the same work on the main thread.
+ */
+export const startMicCapture = async (context: AudioContext, stream: MediaStream, onChunk: (pcm: Int16Array) => void): Promise<MicCapture> => {
+    const source = context.createMediaStreamSource(stream);
+    if (context.audioWorklet && typeof AudioWorkletNode !== 'undefined') {
+        try {
+            return await startWorkletCapture(context, source, onChunk);
+        } catch (error) {
+            console.warn("Audio worklet capture is unavailable, falling back to ScriptProcessorNode.", error);
+        }
+    }
+    return startScriptProcessorCapture(context, source, onChunk);
+};
@@ -0,0 +1,31 @@
+import { describe, expect, it } from 'vitest';
+import { createPcmChunker, encodePcmBase64 } from './pcmAudio';
+
+describe('createPcmChunker', () => {
+  it('passes 16 kHz input through as Int16, cut into chunks across blocks', () => {
+    const chunker = createPcmChunker(16000, 4);
+    expect(chunker.push(new Float32Array([0, 0.5, -0.5]))).toEqual([]);
+    expect(chunker.push(new Float32Array([1, -1, 2, 0.25]))).toEqual([new Int16Array([0, 16383, -16384, 32767])]);
+    expect(chunker.push(new Float32Array([0, 0]))).toEqual([new Int16Array([-32768, 32767, 8191, 0])]);
+  });
+
+  it('downsamples by interpolating between input samples, carrying the position between blocks', () => {
+    // 48 kHz to 16 kHz keeps every third sample of a ramp.
+    const ramp = Array.from({ length: 12 }, (_, i) => i / 64);
+    const chunker = createPcmChunker(48000, 4);
+    const chunks = [...chunker.push(new Float32Array(ramp.slice(0, 5))), ...chunker.push(new Float32Array(ramp.slice(5)))];
+    expect(chunks).toEqual([new Int16Array([0, 3, 6, 9].map(i => (i / 64) * 0x7fff))]);
+
+    // 44.1 kHz lands between samples, so the values come from the neighbours on both sides.
+    const [chunk] = createPcmChunker(44100, 2).push(new Float32Array([0, 0.25, 0.5, 0.75, 1]));
+    expect(chunk[1]).toBe(Math.trunc(0.6890625 * 0x7fff));
+  });
+});
+
+describe('encodePcmBase64', () => {
+  it('encodes the little-endian bytes of the samples, including views into larger buffers', () => {
+    const samples = new Int16Array([0, 1, -1, 256]);
+    expect(encodePcmBase64(samples)).toBe(btoa('\x00\x00\x01\x00\xff\xff\x00\x01'));
+    expect(encodePcmBase64(samples.subarray(1, 2))).toBe(btoa('\x01\x00'));
+  });
+});
@@ -0,0 +1,69 @@
+// Mic audio for the Live API: 16 kHz mono 16-bit PCM, base64-encoded.
+export const LIVE_INPUT_SAMPLE_RATE = 16000;
+export const LIVE_INPUT_MIME_TYPE = `audio/pcm;rate=${LIVE_INPUT_SAMPLE_RATE}`;
+
+// The name `pcmCaptureWorklet` registers its processor under.
+export const PCM_CAPTURE_PROCESSOR = 'pcm-capture';
+
+// 100 ms per chunk: short enough for the model to hear speech promptly, long enough to keep messages few.
+const DEFAULT_CHUNK_SAMPLES = LIVE_INPUT_SAMPLE_RATE / 10;
+
+export interface PcmChunker {
+    /** Takes a block of Float32 samples at the input rate and returns the 16 kHz chunks it completed. */
+    push: (input: Float32Array) => Int16Array[];
+}
+
+const toInt16 = (sample: number): number => {
+    const clamped = Math.max(-1, Math.min(1, sample));
+    return clamped < 0 ? clamped * 0x8000 : clamped * 0x7fff;
+};
+
+/**
+ * Resamples mic blocks to 16 kHz with linear interpolation, converts them to Int16 and cuts the result into
+ * fixed-size chunks. Blocks can be any length; the interpolation position and a partial chunk carry over
+ * between calls. Runs inside the capture worklet, and on the main thread where worklets are missing.
+ */
+export const createPcmChunker = (inputRate: number, chunkSamples: number = DEFAULT_CHUNK_SAMPLES): PcmChunker => {
+    const step = inputRate / LIVE_INPUT_SAMPLE_RATE;
+    // Where the next output sample falls, counted from the current block's first sample; -1 is the previous block's last.
+    let position = 0;
+    let previous = 0;
+    let chunk = new Int16Array(chunkSamples);
+    let filled = 0;
+
+    const push = (input: Float32Array): Int16Array[] => {
+        const chunks: Int16Array[] = [];
+        const sampleAt = (index: number) => index < 0 ? previous : input[index];
+        while (position < input.length - 1) {
+            const index = Math.floor(position);
+            const fraction = position - index;
+            const value = sampleAt(index) + (sampleAt(index + 1) - sampleAt(index)) * fraction;
+            chunk[filled++] = toInt16(value);
+            if (filled === chunkSamples) {
+                chunks.push(chunk);
+                chunk = new Int16Array(chunkSamples);
+                filled = 0;
+            }
+            position += step;
+        }
+        if (input.length > 0) {
+            previous = input[input.length - 1];
+            position -= input.length;
+        }
+        return chunks;
+    };
+
+    return { push };
+};
+
+// Large enough to keep `String.fromCharCode` calls few, small enough to stay under argument-count limits.
+const BASE64_BLOCK_BYTES = 0x8000;
+
+export const encodePcmBase64 = (pcm: Int16Array): string => {
+    const bytes = new Uint8Array(pcm.buffer, pcm.byteOffset, pcm.byteLength);
+    let binary = '';
+    for (let offset = 0; offset < bytes.length; offset += BASE64_BLOCK_BYTES) {
+        binary += String.fromCharCode(...bytes.subarray(offset, offset + BASE64_BLOCK_BYTES));
+    }
+    return btoa(binary);
+};
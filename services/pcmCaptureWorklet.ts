@@ -0,0 +1,34 @@
+// Runs in the AudioWorkletGlobalScope, which the DOM typings don't describe.
+import { createPcmChunker, PCM_CAPTURE_PROCESSOR } from './pcmAudio';
+
+declare const sampleRate: number;
+declare class AudioWorkletProcessor {
+    readonly port: MessagePort;
+}
+declare function registerProcessor(name: string, processorCtor: new () => AudioWorkletProcessor): void;
+
+/** Turns the mic's first channel into 16 kHz Int16 chunks and posts each chunk's buffer to the main thread. */
+class PcmCaptureProcessor extends AudioWorkletProcessor {
+    private chunker = createPcmChunker(sampleRate);
+    private stopped = false;
+
+    constructor() {
+        super();
+        this.port.onmessage = (event: MessageEvent) => {
+            if (event.data === 'stop') this.stopped = true;
+        };
+    }
+
+    process(inputs: Float32Array[][]): boolean {
+        if (this.stopped) return false;
+        const channel = inputs[0]?.[0];
+        if (channel) {
+            for (const chunk of this.chunker.push(channel)) {
+                this.port.postMessage(chunk, [chunk.buffer]);
+            }
+        }
+        return true;
+    }
+}
+
+registerProcessor(PCM_CAPTURE_PROCESSOR, PcmCaptureProcessor);
@@ -0,0 +1,137 @@
+import { describe, expect, it } from 'vitest';
+import { FEMALE_CHARACTERS } from '../constants';
+import type { Character, Conversation } from '../types';
+import { buildSystemPrompt } from './promptBuilder';
+
+const sumin = FEMALE_CHARACTERS.find(c => c.id === 'sumin')!;
+
+const conversation = (overrides: Partial<Conversation> = {}): Conversation => ({
+  characterId: sumin.id,
+  messages: [
+    { id: 'm1', sender: 'ai', text: '안녕!', timestamp: new Date('2025-01-01T10:00:00') },
+    { id: 'm2', sender: 'user', text: '', imageUrls: ['blob:photo'], timestamp: new Date('2025-01-01T10:01:00') },
+  ],
+  affinity: 40,
+  sexyMood: 20,
+  chatActive: true,
+  hasUnreadMessages: false,
+  ...overrides,
+});
+
+const legacyCharacter: Character = {
+  ...sumin,
+  id: 'haneul',
+  promptSections: undefined,
+  systemPrompt: [
+    '너는 하늘이야.',
+    '**너의 성격 및 말투:**',
+    '- 밝아.',
+    '**미디어 생성 규칙:**',
+    '- 사진을 보내.',
+    '**매우 중요한 목소리 연기 지침 (음성 채팅용):** "낮고 느리게 말해."',
+    '**중요한 응답 규칙:**',
+    '- 모든 응답은 THOUGHT:, MESSAGE:, COMMANDS: 구조를 엄격하게 따라야 해.',
+  ].join('\n'),
+};
+
+describe('buildSystemPrompt (text)', () => {
+  it('composes the stored prompt from sections and adds the JSON rules for structured characters', () => {
+    const prompt = buildSystemPrompt(sumin, 'text');
+    expect(prompt.startsWith(sumin.systemPrompt)).toBe(true);
+    expect(sumin.systemPrompt).toContain('**미디어 생성 규칙:**');
+    expect(sumin.systemPrompt).toContain('`MESSAGE: 와 진짜?|||대박 신기하다!|||나도 한번 가보고 싶어! 😄`');
+    expect(prompt).toContain('**응답 형식 (JSON, 최우선 적용):**');
+  });
+
+  it('keeps legacy-format characters on the THOUGHT/MESSAGE/COMMANDS rules only', () => {
+    const prompt = buildSystemPrompt({ ...sumin, responseFormat: 'legacy' }, 'text');
+    expect(prompt.startsWith(`${sumin.systemPrompt}\n\n**기억 명령어`)).toBe(true);
+    expect(prompt).not.toContain('**응답 형식 (JSON');
+  });
+
+  it('sends monolithic prompts as written, followed only by the REMEMBER rules', () => {
+    const prompt = buildSystemPrompt({ ...legacyCharacter, responseFormat: 'legacy' }, 'text');
+    expect(prompt.startsWith(`${legacyCharacter.systemPrompt}\n\n**기억 명령어`)).toBe(true);
+    expect(prompt.split('\n\n**').length).toBe(2);
+  });
+});
+
+describe('buildSystemPrompt (voice)', () => {
+  it('leaves out text-only sections and adds the call context', () => {
+    const prompt = buildSystemPrompt(sumin, 'voice', { conversation: conversation() });
+    expect(prompt).toContain('**너의 배경 정보:**');
+    expect(prompt).toContain('**섹시 무드에 따른 행동 지침:**');
+    expect(prompt).not.toContain('**미디어 생성 규칙:**');
+    expect(prompt).not.toContain('**대화 스타일 및 메시지 분할');
+    expect(prompt).not.toContain('**중요한 응답 규칙:**');
+    expect(prompt).not.toContain('AFFINITY_ADJUSTMENT');
+    expect(prompt).toContain('최수민: 안녕!\n유저: (사진을 보냄)');
+    expect(prompt).toContain(`**매우 중요한 목소리 연기 지침:** "${sumin.promptSections!.voiceDirection}"`);
+    expect(prompt).toContain('현재 유저와의 친밀도는 40이야.');
+  });
+
+  it('has calls adjust the stats and hang up through tools', () => {
+    const prompt = buildSystemPrompt(sumin, 'voice', { conversation: conversation() });
+    expect(prompt).toContain('`adjustRelationship({ affinityAdjustment: 2, sexyMoodAdjustment: 1 })`');
+    expect(prompt).toContain('이때는 `leaveCall` 함수를 호출해서 전화를 끊어야 해.');
+    expect(buildSystemPrompt(legacyCharacter, 'voice', { conversation: conversation() })).toContain('`leaveCall` 함수를 호출해서 전화를 끊어.');
+  });
+
+  it('switches to the high-affinity instruction at 70', () => {
+    const prompt = buildSystemPrompt(sumin, 'voice', { conversation: conversation({ affinity: 70 }) });
+    expect(prompt).toContain('**성적인 대화 심화 지침 (매우 중요):**');
+  });
+
+  it('drops text-only headings from monolithic prompts and reads their voice direction', () => {
+    const prompt = buildSystemPrompt(legacyCharacter, 'voice', { conversation: conversation({ messages: [] }) });
+    expect(prompt).toContain('너는 하늘이야.\n\n**너의 성격 및 말투:**\n- 밝아.');
+    expect(prompt).not.toContain('사진을 보내');
+    expect(prompt).not.toContain('THOUGHT:, MESSAGE:');
+    expect(prompt).toContain('**매우 중요한 목소리 연기 지침:** "낮고 느리게 말해."');
+    expect(prompt).toContain('아직 나눈 대화가 없습니다.');
+  });
+
+  it('requires the conversation', () => {
+    expect(() => buildSystemPrompt(sumin, 'voice')).toThrow();
+  });
+});
+
+describe('conversation summary', () => {
+  const summary = { text: '- 유저의 이름은 민준이다.', coveredUntil: 1, updatedAt: 1 };
+
+  it('is added to text prompts before the JSON output rules', () => {
+    const prompt = buildSystemPrompt(sumin, 'text', { conversation: conversation({ summary }) });
+    expect(prompt).toContain('**지금까지의 대화 요약 (장기 기억):**');
+    expect(prompt.indexOf('유저의 이름은 민준이다')).toBeLessThan(prompt.indexOf('**응답 형식 (JSON'));
+  });
+
+  it('is added to voice prompts before the call context', () => {
+    const prompt = buildSystemPrompt(sumin, 'voice', { conversation: conversation({ summary }) });
+    expect(prompt.indexOf('유저의 이름은 민준이다')).toBeLessThan(prompt.indexOf('**음성 대화 문맥 및 연기 지침:**'));
+  });
+
+  it('is left out when empty', () => {
+    const prompt = buildSystemPrompt(sumin, 'text', { conversation: conversation({ summary: { ...summary, text: ' ' } }) });
+    expect(prompt).not.toContain('대화 요약');
+  });
+});
+
+describe('remembered facts', () => {
+  const memories = [{ id: 'memory-1', text: '유저는 고양이를 키운다.', createdAt: 1 }];
+
+  it('are listed in both modes, while only text chat gets the REMEMBER rules', () => {
+    const text = buildSystemPrompt(sumin, 'text', { conversation: conversation(), memories });
+    const voice = buildSystemPrompt(sumin, 'voice', { conversation: conversation(), memories });
+    expect(text).toContain('- 유저는 고양이를 키운다.');
+    expect(voice).toContain('- 유저는 고양이를 키운다.');
+    expect(text).toContain('REMEMBER:"');
+    expect(voice).not.toContain('REMEMBER');
+  });
+});
+
+describe('image edit rules', () => {
+  it('are only given to characters with the image_edit capability', () => {
+    expect(buildSystemPrompt(sumin, 'text')).not.toContain('EDIT_IMAGE');
+    expect(buildSystemPrompt({ ...sumin, capabilities: ['image_generate', 'image_edit'] }, 'text')).toContain('EDIT_IMAGE:"');
+  });
+});
@@ -0,0 +1,88 @@
+import { GoogleGenAI, Modality } from "@google/genai";
+import type { GenerateContentResponse } from "@google/genai";
+import type { ChatProvider, ChatRequest, ChatResult, ImageProvider, ImageResult, InlineImage, ModelTier } from './types';
+
+const CHAT_MODELS: Record<ModelTier, string> = {
+  lite: 'gemini-2.5-flash-lite',
+  fast: 'gemini-2.5-flash',
+  pro: 'gemini-2.5-pro',
+};
+const IMAGE_MODEL = 'gemini-2.5-flash-image';
+
+const getClient = () => new GoogleGenAI({ apiKey: process.env.API_KEY });
+
+const toChatResult = (response: GenerateContentResponse): ChatResult => {
+  const candidate = response.candidates?.[0];
+  return {
+    blockReason: response.promptFeedback?.blockReason,
+    finishReason: candidate?.finishReason,
+    hasCandidate: !!candidate,
+    text: response.text,
+    raw: response,
+  };
+};
+
+const toGenerateParameters = (request: ChatRequest) => ({
+  model: CHAT_MODELS[request.tier ?? 'fast'],
+  contents: request.contents,
+  config: {
+    systemInstruction: request.systemInstruction,
+    responseMimeType: request.responseMimeType,
+    responseSchema: request.responseSchema,
+    temperature: request.temperature,
+  },
+});
+
+const toImageResult = (response: GenerateContentResponse): ImageResult => {
+  const candidate = response.candidates?.[0];
+  const imagePart = candidate?.content?.parts?.find(part => part.inlineData);
+  return {
+    blockReason: response.promptFeedback?.blockReason,
+    finishReason: candidate?.finishReason,
+    hasCandidate: !!candidate,
+    image: imagePart?.inlineData?.data
+      ? { mimeType: imagePart.inlineData.mimeType || 'image/png', data: imagePart.inlineData.data }
+      : undefined,
+    text: response.text,
+    raw: response,
+  };
+};
+
+export const geminiChatProvider: ChatProvider = {
+  name: 'gemini',
+  async generate(request: ChatRequest): Promise<ChatResult> {
+    const response = await getClient().models.generateContent(toGenerateParameters(request));
+    return toChatResult(response);
+  },
+  async *generateStream(request: ChatRequest): AsyncGenerator<ChatResult> {
+    const stream = await getClient().models.generateContentStream(toGenerateParameters(request));
+    for await (const chunk of stream) {
+      yield toChatResult(chunk);
+    }
+  },
+};
+
+export const geminiImageProvider: ImageProvider = {
+  name: 'gemini',
+  async generateImage(prompt: string, reference?: InlineImage): Promise<ImageResult> {
+    const response = await getClient().models.generateContent({
+      model: IMAGE_MODEL,
+      contents: { parts: reference ? [{ inlineData: reference }, { text: prompt }] : [{ text: prompt }] },
+      config: { responseModalities: [Modality.IMAGE] },
+    });
+    return toImageResult(response);
+  },
+  async editImage(image: InlineImage, prompt: string): Promise<ImageResult> {
+    const response = await getClient().models.generateContent({
+      model: IMAGE_MODEL,
+      contents: {
+        parts: [
+          { inlineData: image },
+          { text: prompt },
+        ],
+      },
+      config: { responseModalities: [Modality.IMAGE] },
+    });
+    return toImageResult(response);
+  },
+};
@@ -0,0 +1,52 @@
+import { GoogleGenAI } from "@google/genai";
+import type { LiveConnectParameters } from "@google/genai";
+import type { ChatProvider, ImageProvider, LiveSession } from './types';
+import { geminiChatProvider, geminiImageProvider } from './geminiProvider';
+import { openAiCompatibleChatProvider, openAiCompatibleImageProvider } from './openAiCompatibleProvider';
+import { mockChatProvider, mockImageProvider } from './mockProvider';
+import { connectMockLiveSession } from './mockLiveSession';
+
+export type { ChatProvider, ChatRequest, ChatResult, ImageProvider, ImageResult, InlineImage, LiveSession, ModelTier } from './types';
+
+const DEFAULT_PROVIDER = 'gemini';
+
+const chatProviders = new Map<string, ChatProvider>();
+const imageProviders = new Map<string, ImageProvider>();
+
+export const registerChatProvider = (provider: ChatProvider) => {
+  chatProviders.set(provider.name, provider);
+};
+
+export const registerImageProvider = (provider: ImageProvider) => {
+  imageProviders.set(provider.name, provider);
+};
+
+registerChatProvider(geminiChatProvider);
+registerImageProvider(geminiImageProvider);
+registerChatProvider(openAiCompatibleChatProvider);
+registerImageProvider(openAiCompatibleImageProvider);
+registerChatProvider(mockChatProvider);
+registerImageProvider(mockImageProvider);
+
+const resolve = <T>(registry: Map<string, T>, name: string, kind: string): T => {
+  const provider = registry.get(name);
+  if (!provider) {
+    throw new Error(`Unknown ${kind} provider '${name}'. Registered: ${[...registry.keys()].join(', ')}`);
+  }
+  return provider;
+};
+
+// Selected through LLM_PROVIDER / IMAGE_PROVIDER in .env.local. Images follow the chat provider unless overridden.
+export const getChatProvider = (): ChatProvider =>
+  resolve(chatProviders, process.env.LLM_PROVIDER || DEFAULT_PROVIDER, 'chat');
+
+export const getImageProvider = (): ImageProvider =>
+  resolve(imageProviders, process.env.IMAGE_PROVIDER || process.env.LLM_PROVIDER || DEFAULT_PROVIDER, 'image');
+
+export const isMockBackend = (): boolean => process.env.LLM_PROVIDER === 'mock';
+
+// Voice calls need the Gemini Live API; in mock mode a scripted session with synthetic audio replaces it.
+export const connectLiveSession = (params: LiveConnectParameters): Promise<LiveSession> =>
+  isMockBackend()
+    ? connectMockLiveSession(params)
+    : new GoogleGenAI({ apiKey: process.env.API_KEY }).live.connect(params);
@@ -0,0 +1,120 @@
+import type { LiveConnectParameters, LiveServerMessage } from "@google/genai";
+import type { LiveSession } from './types';
+
+const OUTPUT_SAMPLE_RATE = 24000;
+const INPUT_BYTES_PER_SECOND = 16000 * 2; // 16 kHz, 16-bit mono
+const INPUT_SECONDS_PER_REPLY = 2;
+const CHUNK_MS = 200;
+
+// Pitch contours for the fake "speech" clips, in Hz per syllable. Replies cycle through them.
+const REPLY_CONTOURS = [
+  [220, 260, 240, 300, 280],
+  [200, 180, 230, 210],
+  [260, 300, 280, 320, 250, 240],
+];
+// What the mock "says", sent as output transcription alongside each clip.
+const REPLY_TRANSCRIPTS = ['여보세요? 목소리 들으니까 좋다.', '응, 듣고 있어. 계속 말해줘.', '하하, 진짜? 그래서 어떻게 됐어?'];
+const MOCK_INPUT_TRANSCRIPT = '(모의 음성 입력)';
+
+const toBase64 = (bytes: Uint8Array): string => {
+  let binary = '';
+  for (let i = 0; i < bytes.byteLength; i++) {
+    binary += String.fromCharCode(bytes[i]);
+  }
+  return btoa(binary);
+};
+
+/** Synthesizes a syllable-like tone sequence as 24 kHz 16-bit PCM, split into chunks. */
+const synthesizeSpeech = (contour: number[]): string[] => {
+  const syllableSamples = Math.floor(OUTPUT_SAMPLE_RATE * 0.18);
+  const samples = new Int16Array(contour.length * syllableSamples);
+  contour.forEach((frequency, syllable) => {
+    for (let i = 0; i < syllableSamples; i++) {
+      const envelope = Math.sin((Math.PI * i) / syllableSamples);
+      const t = i / OUTPUT_SAMPLE_RATE;
+      const value = Math.sin(2 * Math.PI * frequency * t) * 0.6 + Math.sin(4 * Math.PI * frequency * t) * 0.2;
+      samples[syllable * syllableSamples + i] = Math.round(value * envelope * 0.4 * 32767);
+    }
+  });
+
+  const chunkSamples = Math.floor((OUTPUT_SAMPLE_RATE * CHUNK_MS) / 1000);
+  const chunks: string[] = [];
+  for (let offset = 0; offset < samples.length; offset += chunkSamples) {
+    const chunk = samples.slice(offset, offset + chunkSamples);
+    chunks.push(toBase64(new Uint8Array(chunk.buffer)));
+  }
+  return chunks;
+};
+
+/**
+ * An offline stand-in for `ai.live.connect`. It greets on open, then answers with a synthetic
+ * audio clip when the uploaded speech pauses or reaches a couple of seconds, transcribing both sides with canned text
+ * and nudging affinity up with an `adjustRelationship` call after each reply.
+ */
+export const connectMockLiveSession = async ({ callbacks }: LiveConnectParameters): Promise<LiveSession> => {
+  const timers = new Set<ReturnType<typeof setTimeout>>();
+  let isClosed = false;
+  let receivedInputBytes = 0;
+  let replyCount = 0;
+
+  const schedule = (fn: () => void, delay: number) => {
+    const timer = setTimeout(() => {
+      timers.delete(timer);
+      if (!isClosed) fn();
+    }, delay);
+    timers.add(timer);
+  };
+
+  const emit = (message: Partial<LiveServerMessage>) => callbacks.onmessage(message as LiveServerMessage);
+
+  const reply = () => {
+    const chunks = synthesizeSpeech(REPLY_CONTOURS[replyCount % REPLY_CONTOURS.length]);
+    emit({ serverContent: { outputTranscription: { text: REPLY_TRANSCRIPTS[replyCount % REPLY_TRANSCRIPTS.length] } } });
+    replyCount++;
+    chunks.forEach((data, index) => {
+      schedule(() => emit({
+        serverContent: { modelTurn: { role: 'model', parts: [{ inlineData: { mimeType: `audio/pcm;rate=${OUTPUT_SAMPLE_RATE}`, data } }] } },
+      }), index * CHUNK_MS);
+    });
+    schedule(() => emit({ serverContent: { turnComplete: true } }), chunks.length * CHUNK_MS);
+    // Every reply warms the relationship a little, so the stat updates can be tried offline.
+    schedule(() => emit({
+      toolCall: { functionCalls: [{ id: `mock-adjust-${replyCount}`, name: 'adjustRelationship', args: { affinityAdjustment: 1, sexyMoodAdjustment: 0 } }] },
+    }), chunks.length * CHUNK_MS);
+  };
+
+  const answerInput = () => {
+    receivedInputBytes = 0;
+    emit({ serverContent: { inputTranscription: { text: MOCK_INPUT_TRANSCRIPT } } });
+    reply();
+  };
+
+  const session: LiveSession = {
+    sendRealtimeInput: ({ media, audioStreamEnd }) => {
+      if (isClosed) return;
+      // A paused stream ends the user's turn, like the real session's activity detection.
+      if (audioStreamEnd) {
+        if (receivedInputBytes > 0) answerInput();
+        return;
+      }
+      if (!media?.data) return;
+      receivedInputBytes += Math.floor((media.data.length * 3) / 4);
+      if (receivedInputBytes >= INPUT_BYTES_PER_SECOND * INPUT_SECONDS_PER_REPLY) answerInput();
+    },
+    sendToolResponse: () => { /* The mock's tool calls need no follow-up. */ },
+    close: () => {
+      if (isClosed) return;
+      isClosed = true;
+      timers.forEach(timer => clearTimeout(timer));
+      timers.clear();
+      callbacks.onclose?.(new CloseEvent('close', { code: 1000, reason: 'Mock session closed' }));
+    },
+  };
+
+  schedule(() => {
+    callbacks.onopen?.();
+    schedule(reply, 300);
+  }, 150);
+
+  return session;
+};
@@ -0,0 +1,140 @@
+import type { GeminiContent } from '../../types';
+import type { ChatProvider, ChatRequest, ChatResult, ImageProvider, ImageResult, InlineImage } from './types';
+
+// Canned turns in the legacy THOUGHT/MESSAGE/COMMANDS format, replayed in order by user turn count.
+const SCRIPTED_TURNS = [
+  `THOUGHT: 답장이 왔네! 반가워. AFFINITY_ADJUSTMENT: 2, SEXY_MOOD_ADJUSTMENT: 0
+MESSAGE: 앗 답장 왔다! ㅋㅋ|||오늘 하루는 어땠어?
+COMMANDS:`,
+  `THOUGHT: 대화가 잘 통하는 것 같아. AFFINITY_ADJUSTMENT: 3, SEXY_MOOD_ADJUSTMENT: 1
+MESSAGE: 진짜? 나도 그거 완전 좋아해!|||우리 은근 잘 맞는 것 같은데? 😄
+COMMANDS:`,
+  `THOUGHT: 조금 무심한 대답이라 서운하다. AFFINITY_ADJUSTMENT: -2, SEXY_MOOD_ADJUSTMENT: 0
+MESSAGE: 음... 그건 좀 서운한데?|||그래도 솔직하게 말해줘서 고마워
+COMMANDS:`,
+  `THOUGHT: 점점 설레기 시작했어. AFFINITY_ADJUSTMENT: 4, SEXY_MOOD_ADJUSTMENT: 3
+MESSAGE: 너랑 얘기하면 시간 가는 줄 모르겠다 ㅎㅎ|||다음에 직접 만나서 얘기할래?
+COMMANDS:`,
+];
+
+const IMAGE_TURN = `THOUGHT: 사진을 보여달라고 하네. 바로 찍어서 보내줘야지. AFFINITY_ADJUSTMENT: 2, SEXY_MOOD_ADJUSTMENT: 1
+MESSAGE: 내 사진? 좋아! 잠깐만 기다려줘 😉
+COMMANDS: GENERATE_IMAGE:"A candid selfie of a smiling young Korean person in a bright cafe, mock placeholder."`;
+
+const LEAVE_TURN = `THOUGHT: 더 이상 대화하고 싶지 않아. AFFINITY_ADJUSTMENT: -100, SEXY_MOOD_ADJUSTMENT: 0
+MESSAGE: 그래, 잘 지내.
+COMMANDS: LEAVE_CHAT`;
+
+const IMAGE_REQUEST_PATTERN = /사진|셀카|selfie|photo|picture/i;
+const LEAVE_REQUEST_PATTERN = /잘\s*있어|잘\s*가|bye/i;
+
+const MOCK_CHARACTERS = [
+  { id: 'haneul', name: '한하늘', age: 26, mbti: 'ISFP', bloodType: 'A', voiceName: 'Kore', role: '플로리스트' },
+  { id: 'doyun', name: '서도윤', age: 27, mbti: 'ENTP', bloodType: 'B', voiceName: 'Puck', role: '바텐더' },
+];
+
+let generatedCharacterCount = 0;
+
+const getLastUserText = (contents: GeminiContent[]): string => {
+  const lastUser = [...contents].reverse().find(c => c.role === 'user');
+  return lastUser?.parts.map(part => ('text' in part ? part.text : '')).join(' ') ?? '';
+};
+
+const pickScriptedTurn = (contents: GeminiContent[]): string => {
+  const lastUserText = getLastUserText(contents);
+  if (LEAVE_REQUEST_PATTERN.test(lastUserText)) return LEAVE_TURN;
+  if (IMAGE_REQUEST_PATTERN.test(lastUserText)) return IMAGE_TURN;
+  const userTurns = contents.filter(c => c.role === 'user').length;
+  return SCRIPTED_TURNS[(userTurns - 1 + SCRIPTED_TURNS.length) % SCRIPTED_TURNS.length];
+};
+
+// Apart from summaries, a string `contents` is only used by the character generator, which expects the characterSchema JSON.
+const buildMockCharacter = (): string => {
+  const template = MOCK_CHARACTERS[generatedCharacterCount % MOCK_CHARACTERS.length];
+  generatedCharacterCount++;
+  const initialMessage = `어제 거기서 번호 받은 ${template.name}이에요 ㅎㅎ 연락해도 되죠?`;
+  return JSON.stringify({
+    id: `${template.id}${generatedCharacterCount}`,
+    name: template.name,
+    age: template.age,
+    mbti: template.mbti,
+    bloodType: template.bloodType,
+    initialMessage,
+    initialAffinity: 40,
+    initialSexyMood: 20,
+    voiceName: template.voiceName,
+    systemPrompt: `너는 '${template.name}'이라는 ${template.age}살의 ${template.role}야. 네가 보낸 첫 메시지는 이것이었어: "${initialMessage}"\n모든 응답은 THOUGHT:, MESSAGE:, COMMANDS: 구조를 엄격하게 따라야 해.`,
+    avatarGenerationPrompt: `A portrait of a ${template.age}-year-old Korean ${template.role}, mock placeholder.`,
+  });
+};
+
+// 'lite' requests come from the conversation summarizer; the summary just records how much was folded in.
+const buildMockSummary = (contents: GeminiContent[] | string): string => {
+  const text = typeof contents === 'string' ? contents : '';
+  const previous = text.match(/\[기존 요약\]\n([\s\S]*?)\n\n\[새 대화\]/)?.[1];
+  const newLines = text.split('[새 대화]\n')[1]?.split('\n').filter(Boolean).length ?? 0;
+  return [previous && previous !== '(없음)' ? previous : null, `- (모의 요약) 메시지 ${newLines}개 분량의 대화를 나눴다.`]
+    .filter(Boolean)
+    .join('\n');
+};
+
+const hashString = (value: string): number => {
+  let hash = 0;
+  for (let i = 0; i < value.length; i++) {
+    hash = (hash * 31 + value.charCodeAt(i)) | 0;
+  }
+  return Math.abs(hash);
+};
+
+const escapeXml = (value: string) =>
+  value.replace(/[<>&"']/g, c => ({ '<': '&lt;', '>': '&gt;', '&': '&amp;', '"': '&quot;', "'": '&apos;' }[c]!));
+
+// The same prompt always yields the same placeholder, so flows are reproducible.
+const buildPlaceholderImage = (prompt: string, label: string): InlineImage => {
+  const hue = hashString(prompt) % 360;
+  const caption = escapeXml(prompt.length > 60 ? `${prompt.slice(0, 57)}...` : prompt);
+  const svg = `<svg xmlns="http://www.w3.org/2000/svg" width="512" height="512" viewBox="0 0 512 512">`
+    + `<rect width="512" height="512" fill="hsl(${hue}, 55%, 45%)"/>`
+    + `<circle cx="256" cy="210" r="90" fill="hsl(${(hue + 40) % 360}, 60%, 70%)"/>`
+    + `<text x="256" y="360" font-family="sans-serif" font-size="28" fill="#fff" text-anchor="middle">${label}</text>`
+    + `<text x="256" y="400" font-family="sans-serif" font-size="14" fill="#fff" text-anchor="middle">${caption}</text>`
+    + `</svg>`;
+  return { mimeType: 'image/svg+xml', data: btoa(unescape(encodeURIComponent(svg))) };
+};
+
+const STREAM_CHUNK_SIZE = 12;
+const STREAM_CHUNK_DELAY_MS = 80;
+
+export const mockChatProvider: ChatProvider = {
+  name: 'mock',
+  async generate(request: ChatRequest): Promise<ChatResult> {
+    const text = request.tier === 'lite'
+      ? buildMockSummary(request.contents)
+      : typeof request.contents === 'string' ? buildMockCharacter() : pickScriptedTurn(request.contents);
+    return { finishReason: 'STOP', hasCandidate: true, text, raw: { mock: true, text } };
+  },
+  async *generateStream(request: ChatRequest): AsyncGenerator<ChatResult> {
+    const { text = '' } = await this.generate(request);
+    for (let offset = 0; offset < text.length; offset += STREAM_CHUNK_SIZE) {
+      await new Promise(resolve => setTimeout(resolve, STREAM_CHUNK_DELAY_MS));
+      const isLast = offset + STREAM_CHUNK_SIZE >= text.length;
+      yield {
+        finishReason: isLast ? 'STOP' : undefined,
+        hasCandidate: true,
+        text: text.slice(offset, offset + STREAM_CHUNK_SIZE),
+        raw: { mock: true, offset },
+      };
+    }
+  },
+};
+
+export const mockImageProvider: ImageProvider = {
+  name: 'mock',
+  async generateImage(prompt: string, reference?: InlineImage): Promise<ImageResult> {
+    const label = reference ? 'MOCK IMAGE (REF)' : 'MOCK IMAGE';
+    return { finishReason: 'STOP', hasCandidate: true, image: buildPlaceholderImage(prompt, label), raw: { mock: true, prompt } };
+  },
+  async editImage(_image: InlineImage, prompt: string): Promise<ImageResult> {
+    return { finishReason: 'STOP', hasCandidate: true, image: buildPlaceholderImage(prompt, 'MOCK EDIT'), raw: { mock: true, prompt } };
+  },
+};
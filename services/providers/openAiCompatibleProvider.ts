@@ -0,0 +1,198 @@
+import type { Schema } from "@google/genai";
+import type { GeminiContent } from '../../types';
+import { isRecord } from '../typeGuards';
+import type { ChatProvider, ChatRequest, ChatResult, ImageProvider, ImageResult, InlineImage, ModelTier } from './types';
+
+// Works against api.openai.com as well as local stand-in servers that speak the same protocol.
+const BASE_URL = (process.env.OPENAI_BASE_URL || 'https://api.openai.com/v1').replace(/\/+$/, '');
+const CHAT_MODELS: Record<ModelTier, string> = {
+  lite: process.env.OPENAI_LITE_MODEL || process.env.OPENAI_CHAT_MODEL || 'gpt-4o-mini',
+  fast: process.env.OPENAI_CHAT_MODEL || 'gpt-4o-mini',
+  pro: process.env.OPENAI_PRO_MODEL || process.env.OPENAI_CHAT_MODEL || 'gpt-4o',
+};
+const IMAGE_MODEL = process.env.OPENAI_IMAGE_MODEL || 'gpt-image-1';
+// DALL·E models return a URL unless asked for base64; gpt-image models always return base64 and reject the parameter.
+const IMAGE_RESPONSE_FORMAT = IMAGE_MODEL.startsWith('dall-e') ? 'b64_json' : undefined;
+
+const FINISH_REASONS: Record<string, string> = {
+  stop: 'STOP',
+  length: 'MAX_TOKENS',
+  content_filter: 'SAFETY',
+  tool_calls: 'STOP',
+};
+
+const stringField = (value: unknown, key: string): string | undefined => {
+  const field = isRecord(value) ? value[key] : undefined;
+  return typeof field === 'string' ? field : undefined;
+};
+
+// The first entry of a response's `choices` or `data` array.
+const firstItem = (body: unknown, key: string): Record<string, unknown> | undefined => {
+  const items = isRecord(body) ? body[key] : undefined;
+  return Array.isArray(items) && isRecord(items[0]) ? items[0] : undefined;
+};
+
+const authHeaders = (): Record<string, string> =>
+  process.env.OPENAI_API_KEY ? { Authorization: `Bearer ${process.env.OPENAI_API_KEY}` } : {};
+
+/**
+ * Builds errors in the `{ error: { code, message, status } }` JSON shape Gemini uses,
+ * so the services' existing error-message mapping applies unchanged.
+ */
+const toApiError = (response: Response, body: unknown): Error => {
+  const error = isRecord(body) && isRecord(body.error) ? body.error : {};
+  const message = stringField(error, 'message') || response.statusText || `HTTP ${response.status}`;
+  return new Error(JSON.stringify({ error: { code: response.status, message, status: error.type || error.code } }));
+};
+
+const request = async (path: string, init: RequestInit): Promise<unknown> => {
+  const response = await fetch(`${BASE_URL}${path}`, init);
+  const body = await response.json().catch(() => null);
+  if (!response.ok) {
+    throw toApiError(response, body);
+  }
+  return body;
+};
+
+// Gemini schemas use upper-case type names ('OBJECT'); JSON Schema expects lower case.
+const toJsonSchema = (schema: Schema): Record<string, unknown> => {
+  const { type, properties, items, propertyOrdering, ...rest } = schema as Schema & Record<string, unknown>;
+  const jsonSchema: Record<string, unknown> = { ...rest };
+  if (type) jsonSchema.type = String(type).toLowerCase();
+  if (properties) {
+    jsonSchema.properties = Object.fromEntries(Object.entries(properties).map(([key, value]) => [key, toJsonSchema(value)]));
+  }
+  if (items) jsonSchema.items = toJsonSchema(items);
+  return jsonSchema;
+};
+
+const toChatMessages = (systemInstruction: string | undefined, contents: GeminiContent[] | string) => {
+  const messages: { role: string; content: unknown }[] = [];
+  if (systemInstruction) {
+    messages.push({ role: 'system', content: systemInstruction });
+  }
+  if (typeof contents === 'string') {
+    messages.push({ role: 'user', content: contents });
+    return messages;
+  }
+  for (const content of contents) {
+    messages.push({
+      role: content.role === 'model' ? 'assistant' : 'user',
+      content: content.parts.map(part => 'text' in part
+        ? { type: 'text', text: part.text }
+        : { type: 'image_url', image_url: { url: `data:${part.inlineData.mimeType};base64,${part.inlineData.data}` } }),
+    });
+  }
+  return messages;
+};
+
+const toChatBody = (chatRequest: ChatRequest, stream: boolean) => JSON.stringify({
+  model: CHAT_MODELS[chatRequest.tier ?? 'fast'],
+  messages: toChatMessages(chatRequest.systemInstruction, chatRequest.contents),
+  temperature: chatRequest.temperature,
+  stream,
+  response_format: chatRequest.responseSchema
+    ? { type: 'json_schema', json_schema: { name: 'response', schema: toJsonSchema(chatRequest.responseSchema) } }
+    : chatRequest.responseMimeType === 'application/json' ? { type: 'json_object' } : undefined,
+});
+
+const toFinishReason = (finishReason: unknown): string | undefined =>
+  finishReason ? FINISH_REASONS[String(finishReason)] ?? String(finishReason).toUpperCase() : undefined;
+
+const toImageResult = (body: unknown): ImageResult => {
+  const item = firstItem(body, 'data');
+  const data = stringField(item, 'b64_json');
+  return {
+    hasCandidate: !!item,
+    image: data ? { mimeType: 'image/png', data } : undefined,
+    text: stringField(item, 'revised_prompt'),
+    raw: body,
+  };
+};
+
+const base64ToBlob = ({ mimeType, data }: InlineImage): Blob => {
+  const binary = atob(data);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) {
+    bytes[i] = binary.charCodeAt(i);
+  }
+  return new Blob([bytes], { type: mimeType });
+};
+
+export const openAiCompatibleChatProvider: ChatProvider = {
+  name: 'openai',
+  async generate(chatRequest: ChatRequest): Promise<ChatResult> {
+    const body = await request('/chat/completions', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', ...authHeaders() },
+      body: toChatBody(chatRequest, false),
+    });
+    const choice = firstItem(body, 'choices');
+    return {
+      finishReason: toFinishReason(choice?.finish_reason),
+      hasCandidate: !!choice,
+      text: stringField(choice?.message, 'content'),
+      raw: body,
+    };
+  },
+  async *generateStream(chatRequest: ChatRequest): AsyncGenerator<ChatResult> {
+    const response = await fetch(`${BASE_URL}/chat/completions`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', ...authHeaders() },
+      body: toChatBody(chatRequest, true),
+    });
+    if (!response.ok || !response.body) {
+      throw toApiError(response, await response.json().catch(() => null));
+    }
+
+    // Server-sent events: one `data: {...}` line per chunk, terminated by `data: [DONE]`.
+    const reader = response.body.pipeThrough(new TextDecoderStream()).getReader();
+    let buffered = '';
+    while (true) {
+      const { value, done } = await reader.read();
+      if (done) break;
+      buffered += value;
+      const lines = buffered.split('\n');
+      buffered = lines.pop() ?? '';
+      for (const line of lines) {
+        const data = line.replace(/^data:\s*/, '').trim();
+        if (!line.startsWith('data:') || !data || data === '[DONE]') continue;
+        const chunk: unknown = JSON.parse(data);
+        const choice = firstItem(chunk, 'choices');
+        yield {
+          finishReason: toFinishReason(choice?.finish_reason),
+          hasCandidate: !!choice,
+          text: stringField(choice?.delta, 'content'),
+          raw: chunk,
+        };
+      }
+    }
+  },
+};
+
+export const openAiCompatibleImageProvider: ImageProvider = {
+  name: 'openai',
+  async generateImage(prompt: string, reference?: InlineImage): Promise<ImageResult> {
+    // The generations endpoint is text-only; the edits endpoint takes the reference as its input image.
+    if (reference) return openAiCompatibleImageProvider.editImage(reference, prompt);
+    const body = await request('/images/generations', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', ...authHeaders() },
+      body: JSON.stringify({ model: IMAGE_MODEL, prompt, n: 1, response_format: IMAGE_RESPONSE_FORMAT }),
+    });
+    return toImageResult(body);
+  },
+  async editImage(image: InlineImage, prompt: string): Promise<ImageResult> {
+    const form = new FormData();
+    form.append('model', IMAGE_MODEL);
+    form.append('prompt', prompt);
+    form.append('image', base64ToBlob(image), 'image');
+    if (IMAGE_RESPONSE_FORMAT) form.append('response_format', IMAGE_RESPONSE_FORMAT);
+    const body = await request('/images/edits', {
+      method: 'POST',
+      headers: authHeaders(),
+      body: form,
+    });
+    return toImageResult(body);
+  },
+};
@@ -0,0 +1,57 @@
+import type { Schema, Session } from "@google/genai";
+import type { GeminiContent } from '../../types';
+
+// 'fast' is used for chat turns, 'pro' for heavier creative tasks like character generation,
+// 'lite' for cheap background bookkeeping like conversation summaries.
+export type ModelTier = 'lite' | 'fast' | 'pro';
+
+export interface InlineImage {
+  mimeType: string;
+  data: string; // base64, without the data: prefix
+}
+
+/**
+ * Provider responses are normalized to the fields the services inspect on a Gemini response,
+ * so the existing safety and finish-reason handling works for every backend.
+ */
+export interface ProviderResult {
+  blockReason?: string;
+  finishReason?: string;
+  hasCandidate: boolean;
+  raw: unknown; // The untouched backend response, for logging
+}
+
+export interface ChatRequest {
+  tier?: ModelTier;
+  systemInstruction?: string;
+  contents: GeminiContent[] | string;
+  responseMimeType?: 'application/json';
+  responseSchema?: Schema;
+  temperature?: number;
+}
+
+export interface ChatResult extends ProviderResult {
+  text?: string;
+}
+
+export interface ImageResult extends ProviderResult {
+  image?: InlineImage;
+  text?: string;
+}
+
+export interface ChatProvider {
+  readonly name: string;
+  generate(request: ChatRequest): Promise<ChatResult>;
+  // Yields results whose `text` is the delta since the previous chunk.
+  generateStream(request: ChatRequest): AsyncGenerator<ChatResult>;
+}
+
+export interface ImageProvider {
+  readonly name: string;
+  // `reference` shows the person whose face the generated image must keep.
+  generateImage(prompt: string, reference?: InlineImage): Promise<ImageResult>;
+  editImage(image: InlineImage, prompt: string): Promise<ImageResult>;
+}
+
+// The subset of a Live API session the voice chat uses, so a mock can stand in for it.
+export type LiveSession = Pick<Session, 'sendRealtimeInput' | 'sendToolResponse' | 'close'>;
@@ -0,0 +1,43 @@
+import type { Character, UserGender } from '../types';
+import type { InlineImage } from './providers';
+import * as storageService from './storageService';
+import { urlToDataUrl } from './downloadService';
+
+const dataUrlToInlineImage = (dataUrl: string): InlineImage | null => {
+    const match = dataUrl.match(/^data:([^;]+);base64,(.+)$/);
+    return match ? { mimeType: match[1], data: match[2] } : null;
+};
+
+const loadInlineImage = async (url: string): Promise<InlineImage | null> => {
+    try {
+        return dataUrlToInlineImage(await urlToDataUrl(url));
+    } catch (error) {
+        console.error('Failed to read the reference image', error);
+        return null;
+    }
+};
+
+/**
+ * The face generated images of this character must keep: the pinned reference if the user chose one,
+ * otherwise the avatar when it was generated or uploaded here. Remote default avatars are not used,
+ * since they can't be read across origins.
+ */
+export const getReferenceImage = async (gender: UserGender, character: Character): Promise<InlineImage | null> => {
+    const pinned = await storageService.getAvatar(storageService.getReferenceImageKey(gender, character.id));
+    if (pinned) {
+        try {
+            return await loadInlineImage(pinned);
+        } finally {
+            URL.revokeObjectURL(pinned);
+        }
+    }
+    if (/^(data|blob):/.test(character.avatarUrl)) return loadInlineImage(character.avatarUrl);
+    return null;
+};
+
+/** Makes `imageUrl` the face reference for every image generated for this character from now on. */
+export const pinReferenceImage = (gender: UserGender, characterId: string, imageUrl: string): Promise<void> =>
+    storageService.saveAvatar(storageService.getReferenceImageKey(gender, characterId), imageUrl);
+
+export const clearReferenceImage = (gender: UserGender, characterId: string): Promise<void> =>
+    storageService.deleteAvatar(storageService.getReferenceImageKey(gender, characterId));
@@ -0,0 +1,160 @@
+import { describe, expect, it } from 'vitest';
+import { extractCompletedMessages, parseLegacyTurn, parseStructuredTurn, turnToResponse } from './responseParser';
+import * as fixtures from './__fixtures__/modelResponses';
+
+const parseLegacy = (raw: string) => turnToResponse(parseLegacyTurn(raw), raw);
+
+describe('parseLegacyTurn', () => {
+  it('splits MESSAGE on ||| and reads both adjustments', () => {
+    const turn = parseLegacyTurn(fixtures.LEGACY_SPLIT_MESSAGES);
+    expect(turn.messages).toEqual(['와 진짜?', '대박 신기하다!', '나도 한번 가보고 싶어! 😄']);
+    expect(turn.affinityAdjustment).toBe(5);
+    expect(turn.sexyMoodAdjustment).toBe(3);
+    expect(turn.commands).toEqual([]);
+    expect(turn.thought).toContain('칭찬');
+  });
+
+  it('reads negative adjustments and a MESSAGE without COMMANDS', () => {
+    const turn = parseLegacyTurn(fixtures.LEGACY_NEGATIVE_ADJUSTMENT);
+    expect(turn.affinityAdjustment).toBe(-3);
+    expect(turn.sexyMoodAdjustment).toBe(-1);
+    expect(turn.messages).toEqual(['음... 그게 아니라 ㅠㅠ']);
+  });
+
+  it('extracts the GENERATE_IMAGE prompt without leaking it into the message', () => {
+    const response = parseLegacy(fixtures.LEGACY_IMAGE_COMMAND);
+    expect(response.imageGenerationPrompt).toBe('A candid selfie of a cute and lovely 24-year-old Korean woman, winking in a bright cafe in Yeonnam-dong.');
+    expect(response.texts).toEqual(['내 사진? 좋아! ㅋㅋ 바로 찍어서 보내줄게! 잠시만 기다려줘! 😉']);
+    expect(response.hasLeft).toBe(false);
+  });
+
+  it('handles several commands in one response', () => {
+    const response = parseLegacy(fixtures.LEGACY_MULTI_COMMAND);
+    expect(response.texts).toEqual(['이거 보고 반성해.', '잘 있어.']);
+    expect(response.imageGenerationPrompt).toBe('A blurry photo of an empty cafe table at night.');
+    expect(response.hasLeft).toBe(true);
+    expect(response.affinityAdjustment).toBe(-60);
+  });
+
+  it('collects every REMEMBER fact and keeps them out of the message', () => {
+    const response = parseLegacy(fixtures.LEGACY_REMEMBER_COMMANDS);
+    expect(response.memories).toEqual(['유저의 이름은 민준이다.', '유저는 개발자로 일한다.']);
+    expect(response.texts).toEqual(['민준이구나! 반가워 ㅎㅎ', '개발자라니 멋지다 😊']);
+  });
+
+  it('reads an optional EDIT_IMAGE instruction', () => {
+    const withPrompt = parseLegacy('MESSAGE: 바다로 바꿔볼게!\nCOMMANDS: EDIT_IMAGE:"Change the background to a beach."');
+    expect(withPrompt.editImage).toBe(true);
+    expect(withPrompt.editImagePrompt).toBe('Change the background to a beach.');
+    expect(withPrompt.texts).toEqual(['바다로 바꿔볼게!']);
+
+    const bare = parseLegacy('MESSAGE: 잠깐만!\nCOMMANDS: EDIT_IMAGE');
+    expect(bare.editImage).toBe(true);
+    expect(bare.editImagePrompt).toBeUndefined();
+  });
+
+  it('accepts the inMESSAGE: typo', () => {
+    const response = parseLegacy(fixtures.LEGACY_IN_MESSAGE_TYPO);
+    expect(response.texts).toEqual(['오늘 뭐했어?', '나는 과제 폭탄 맞았어 ㅠㅠ']);
+    expect(response.texts.join(' ')).not.toContain('THOUGHT');
+  });
+
+  it('unescapes quotes and newlines and strips wrapping quotes', () => {
+    const response = parseLegacy(fixtures.LEGACY_ESCAPED_QUOTES);
+    expect(response.texts).toEqual(['민지가 나보고 "너 요즘 왜 이렇게 웃어?"래 ㅋㅋ\n너 때문인 줄도 모르고']);
+  });
+
+  it('reads MESSAGE from a fenced JSON object', () => {
+    const response = parseLegacy(fixtures.LEGACY_JSON_MESSAGE);
+    expect(response.texts).toEqual(['안녕!', '연락 기다렸어 ㅎㅎ']);
+    expect(response.affinityAdjustment).toBe(2);
+  });
+
+  it('removes metadata that leaked into the message body', () => {
+    const response = parseLegacy(fixtures.LEGACY_METADATA_LEAK);
+    expect(response.texts).toEqual(['보고 싶었어', '오늘 만날래?']);
+    expect(response.affinityAdjustment).toBe(4);
+  });
+
+  it('falls back to the raw text when there is no structure at all', () => {
+    expect(parseLegacy(fixtures.PLAIN_TEXT_ONLY).texts).toEqual(['응 나도 좋아 ㅎㅎ']);
+  });
+
+  it('salvages complete bubbles from truncated structured JSON instead of showing it', () => {
+    const response = parseLegacy(fixtures.STRUCTURED_TRUNCATED);
+    expect(response.texts).toEqual(['좋아 ㅎㅎ', '그럼 토요일에 볼까?']);
+    expect(response.affinityAdjustment).toBe(3);
+    expect(response.sexyMoodAdjustment).toBe(1);
+  });
+
+  it('shows a generic error instead of malformed JSON with no complete bubbles', () => {
+    const response = parseLegacy(fixtures.STRUCTURED_TRUNCATED_BEFORE_MESSAGES);
+    expect(response.texts).toEqual(['캐릭터가 응답하는 데 문제가 발생했어요. 😥']);
+  });
+});
+
+describe('parseStructuredTurn', () => {
+  it('parses a schema-conforming turn', () => {
+    expect(parseStructuredTurn(fixtures.STRUCTURED_TURN)).toEqual({
+      thought: '유저가 내 취미를 칭찬해줬네. AFFINITY_ADJUSTMENT 올려야지.',
+      messages: ['와 진짜?', '대박 신기하다!'],
+      affinityAdjustment: 5,
+      sexyMoodAdjustment: 3,
+      commands: [],
+    });
+  });
+
+  it('normalizes messages and drops invalid commands', () => {
+    const turn = parseStructuredTurn(fixtures.STRUCTURED_MULTI_COMMAND);
+    expect(turn?.messages).toEqual(['이거 마지막 사진이야', '잘 지내']);
+    expect(turn?.affinityAdjustment).toBe(-10);
+    expect(turn?.commands).toEqual([
+      { type: 'GENERATE_IMAGE', prompt: 'A rainy street at night.' },
+      { type: 'LEAVE_CHAT' },
+    ]);
+  });
+
+  it('reads REMEMBER facts, falling back to the prompt field', () => {
+    const response = turnToResponse(parseStructuredTurn(fixtures.STRUCTURED_REMEMBER_COMMANDS)!, fixtures.STRUCTURED_REMEMBER_COMMANDS);
+    expect(response.memories).toEqual(['유저의 생일은 3월 14일이다.', '유저는 화이트데이에 태어났다.']);
+  });
+
+  it('does not show the thought to the user', () => {
+    const response = turnToResponse(parseStructuredTurn(fixtures.STRUCTURED_TURN)!, fixtures.STRUCTURED_TURN);
+    expect(response.texts.join(' ')).not.toContain('칭찬해줬네');
+  });
+
+  it('returns null for text the legacy parser should handle', () => {
+    expect(parseStructuredTurn(fixtures.LEGACY_SPLIT_MESSAGES)).toBeNull();
+    expect(parseStructuredTurn(fixtures.STRUCTURED_TRUNCATED)).toBeNull();
+    expect(parseStructuredTurn(fixtures.LEGACY_JSON_MESSAGE)).toBeNull();
+  });
+});
+
+describe('extractCompletedMessages', () => {
+  it('only returns JSON entries that are followed by a separator', () => {
+    expect(extractCompletedMessages(fixtures.STRUCTURED_TRUNCATED, true)).toEqual(['좋아 ㅎㅎ', '그럼 토요일에 볼까?']);
+    expect(extractCompletedMessages(fixtures.STRUCTURED_TURN, true)).toEqual(['와 진짜?', '대박 신기하다!']);
+  });
+
+  it('handles escaped quotes inside JSON entries', () => {
+    expect(extractCompletedMessages('{"messages": ["그가 \\"안녕\\"이래", "', true)).toEqual(['그가 "안녕"이래']);
+  });
+
+  it('holds back the last legacy segment until COMMANDS: arrives', () => {
+    const partial = fixtures.LEGACY_SPLIT_MESSAGES.slice(0, fixtures.LEGACY_SPLIT_MESSAGES.indexOf('COMMANDS:'));
+    expect(extractCompletedMessages(partial, false)).toEqual(['와 진짜?', '대박 신기하다!']);
+    expect(extractCompletedMessages(fixtures.LEGACY_SPLIT_MESSAGES, false)).toEqual(['와 진짜?', '대박 신기하다!', '나도 한번 가보고 싶어! 😄']);
+  });
+
+  it('cleans metadata and commands out of streamed legacy bubbles, matching the parsed turn', () => {
+    expect(extractCompletedMessages(fixtures.LEGACY_METADATA_LEAK, false)).toEqual(['보고 싶었어']);
+    const streamed = 'MESSAGE: 사진 보내줄게 GENERATE_IMAGE:"A selfie." REMEMBER:"유저는 사진을 좋아한다."|||그럼 안녕 LEAVE_CHAT|||';
+    expect(extractCompletedMessages(streamed, false)).toEqual(['사진 보내줄게', '그럼 안녕']);
+    expect(parseLegacy(streamed).texts).toEqual(['사진 보내줄게', '그럼 안녕']);
+  });
+
+  it('returns nothing before MESSAGE: starts', () => {
+    expect(extractCompletedMessages('THOUGHT: 음... AFFINITY_ADJUSTMENT: 1', false)).toEqual([]);
+  });
+});
@@ -0,0 +1,254 @@
+import type { CharacterCommand, CharacterTurn } from '../types';
+import { isRecord } from './typeGuards';
+
+export interface GeminiResponse {
+  texts: string[];
+  affinityAdjustment: number;
+  sexyMoodAdjustment: number;
+  hasLeft: boolean;
+  imageGenerationPrompt?: string;
+  editImage: boolean;
+  editImagePrompt?: string;
+  memories: string[]; // facts from REMEMBER commands
+  isError?: boolean;
+}
+
+const COMMAND_TYPES: CharacterCommand['type'][] = ['GENERATE_IMAGE', 'EDIT_IMAGE', 'REMEMBER', 'LEAVE_CHAT'];
+
+const toInteger = (value: unknown): number => {
+    const parsed = typeof value === 'number' ? value : parseInt(String(value ?? ''), 10);
+    return Number.isFinite(parsed) ? Math.round(parsed) : 0;
+};
+
+const isCommandType = (value: unknown): value is CharacterCommand['type'] => COMMAND_TYPES.some(type => type === value);
+
+const trimmedString = (value: unknown): string | undefined =>
+    typeof value === 'string' && value.trim() ? value.trim() : undefined;
+
+/**
+ * Parses a response produced under `characterTurnSchema`.
+ * Returns null if the text is not a JSON object with a `messages` array, so the caller can fall back to the legacy parser.
+ */
+export const parseStructuredTurn = (rawResponse: string): CharacterTurn | null => {
+    let parsed: unknown;
+    try {
+        parsed = JSON.parse(rawResponse.trim().replace(/^```json\s*|```\s*$/g, ''));
+    } catch (e) {
+        return null;
+    }
+    if (!isRecord(parsed) || !Array.isArray(parsed.messages)) {
+        return null;
+    }
+
+    const rawMessages: unknown[] = parsed.messages;
+    const messages = rawMessages
+        .filter((m): m is string => typeof m === 'string')
+        .flatMap(m => m.split('|||'))
+        .map(m => m.trim())
+        .filter(m => m.length > 0);
+
+    const commands: CharacterCommand[] = [];
+    const rawCommands: unknown[] = Array.isArray(parsed.commands) ? parsed.commands : [];
+    for (const command of rawCommands) {
+        const fields: Record<string, unknown> = isRecord(command) ? command : {};
+        const type = typeof command === 'string' ? command : fields.type;
+        if (!isCommandType(type)) continue;
+        const prompt = trimmedString(fields.prompt);
+        if (type === 'GENERATE_IMAGE') {
+            if (prompt) commands.push({ type, prompt });
+        } else if (type === 'EDIT_IMAGE') {
+            commands.push({ type, prompt });
+        } else if (type === 'REMEMBER') {
+            // Models sometimes put the fact in `prompt`, the only other string field.
+            const fact = trimmedString(fields.fact) ?? prompt;
+            if (fact) commands.push({ type, fact });
+        } else {
+            commands.push({ type });
+        }
+    }
+
+    return {
+        thought: typeof parsed.thought === 'string' ? parsed.thought : undefined,
+        messages,
+        affinityAdjustment: toInteger(parsed.affinityAdjustment),
+        sexyMoodAdjustment: toInteger(parsed.sexyMoodAdjustment),
+        commands,
+    };
+};
+
+/**
+ * Strips metadata and commands the model left inside MESSAGE text, and unescapes it. Used on the whole
+ * message once a legacy turn is parsed and on each bubble while it streams, so neither shows them.
+ */
+const cleanLegacyMessage = (text: string): string => {
+    const cleaned = text
+        .replace(/AFFINITY_ADJUSTMENT:\s*[+-]?\d+,?/g, '')
+        .replace(/SEXY_MOOD_ADJUSTMENT:\s*[+-]?\d+,?/g, '')
+        .replace(/GENERATE_IMAGE:"([^"]+)"/g, '')
+        .replace(/REMEMBER:"([^"]+)"/g, '')
+        .replace(/LEAVE_CHAT/g, '')
+        .replace(/EDIT_IMAGE(?::"([^"]+)")?/g, '')
+        .replace(/COMMANDS:[\s\S]*/, '')
+        .replace(/THOUGHT:[\s\S]*?(?:MESSAGE|inMESSAGE):/si, '')
+        .replace(/\\"/g, '"')
+        .replace(/\\n/g, '\n')
+        .trim();
+    return cleaned.startsWith(`"`) && cleaned.endsWith(`"`) ? cleaned.substring(1, cleaned.length - 1).trim() : cleaned;
+};
+
+/**
+ * Parses the free-text THOUGHT/MESSAGE/COMMANDS format used by prompts that have not been migrated to structured output.
+ */
+export const parseLegacyTurn = (rawResponse: string): CharacterTurn => {
+    let affinityAdjustment = 0;
+    let sexyMoodAdjustment = 0;
+    const commands: CharacterCommand[] = [];
+
+    // First, parse the entire raw response for metadata and commands
+    const affinityMatch = rawResponse.match(/AFFINITY_ADJUSTMENT:\s*([+-]?\d+)/);
+    if (affinityMatch?.[1]) {
+        affinityAdjustment = parseInt(affinityMatch[1], 10);
+    }
+
+    const sexyMoodMatch = rawResponse.match(/SEXY_MOOD_ADJUSTMENT:\s*([+-]?\d+)/);
+    if (sexyMoodMatch?.[1]) {
+        sexyMoodAdjustment = parseInt(sexyMoodMatch[1], 10);
+    }
+
+    const imageGenerateMatch = /GENERATE_IMAGE:"([^"]+)"/.exec(rawResponse);
+    if (imageGenerateMatch?.[1]) {
+        commands.push({ type: 'GENERATE_IMAGE', prompt: imageGenerateMatch[1] });
+    }
+    const editImageMatch = /EDIT_IMAGE(?::"([^"]+)")?/.exec(rawResponse);
+    if (editImageMatch) {
+        commands.push({ type: 'EDIT_IMAGE', prompt: editImageMatch[1]?.trim() || undefined });
+    }
+    for (const rememberMatch of rawResponse.matchAll(/REMEMBER:"([^"]+)"/g)) {
+        commands.push({ type: 'REMEMBER', fact: rememberMatch[1].trim() });
+    }
+    if (/LEAVE_CHAT/.test(rawResponse)) {
+        commands.push({ type: 'LEAVE_CHAT' });
+    }
+
+    const thoughtMatch = rawResponse.match(/THOUGHT:([\s\S]*?)(?:MESSAGE|inMESSAGE):/i);
+
+    // Next, extract the user-facing message content, which may need cleaning
+    let messageContent = '';
+    let parsedSuccessfully = false;
+
+    // 1. Attempt to parse as JSON first, as it's a common structured response.
+    try {
+        const cleanedJsonString = rawResponse.trim().replace(/^```json\s*|```\s*$/g, '');
+        const parsedJson: unknown = JSON.parse(cleanedJsonString);
+        if (isRecord(parsedJson) && typeof parsedJson.MESSAGE === 'string') {
+            messageContent = parsedJson.MESSAGE;
+            parsedSuccessfully = true;
+        }
+    } catch (e) {
+        // Not valid JSON, will proceed to regex parsing.
+    }
+
+    // 2. If JSON parsing failed, use robust regex for plain text format.
+    if (!parsedSuccessfully) {
+        const messageMatch = rawResponse.match(/(?:MESSAGE|inMESSAGE):([\s\S]*?)(?:COMMANDS:|$)/si);
+        if (messageMatch && typeof messageMatch[1] === 'string') {
+            messageContent = messageMatch[1];
+            parsedSuccessfully = true;
+        }
+    }
+
+    // 3. Fallback if both primary methods fail to extract a clean message.
+    if (!parsedSuccessfully) {
+        // Truncated or malformed structured output: keep the bubbles that are complete, never the raw JSON.
+        if (rawResponse.trim().startsWith('{')) {
+            const affinityJsonMatch = rawResponse.match(/"affinityAdjustment"\s*:\s*"?([+-]?\d+)/);
+            const sexyMoodJsonMatch = rawResponse.match(/"sexyMoodAdjustment"\s*:\s*"?([+-]?\d+)/);
+            return {
+                messages: extractCompletedMessages(rawResponse, true),
+                affinityAdjustment: affinityJsonMatch ? parseInt(affinityJsonMatch[1], 10) : affinityAdjustment,
+                sexyMoodAdjustment: sexyMoodJsonMatch ? parseInt(sexyMoodJsonMatch[1], 10) : sexyMoodAdjustment,
+                commands,
+            };
+        }
+        messageContent = rawResponse;
+    }
+
+    // 4. Aggressively clean the extracted message content to remove any metadata that shouldn't be displayed.
+    const finalMessage = cleanLegacyMessage(messageContent);
+
+    return {
+        thought: thoughtMatch?.[1]?.trim() || undefined,
+        messages: finalMessage.split('|||').map(m => m.trim()).filter(m => m.length > 0),
+        affinityAdjustment,
+        sexyMoodAdjustment,
+        commands,
+    };
+};
+
+export const turnToResponse = (turn: CharacterTurn, rawResponse: string): GeminiResponse => {
+    const imageCommand = turn.commands.find(c => c.type === 'GENERATE_IMAGE');
+    const imageGenerationPrompt = imageCommand?.type === 'GENERATE_IMAGE' ? imageCommand.prompt : undefined;
+    const editCommand = turn.commands.find(c => c.type === 'EDIT_IMAGE');
+    const editImage = !!editCommand;
+    const editImagePrompt = editCommand?.type === 'EDIT_IMAGE' ? editCommand.prompt : undefined;
+    const memories = turn.commands.flatMap(c => c.type === 'REMEMBER' ? [c.fact] : []);
+    const texts = [...turn.messages];
+
+    // Final sanity check
+    if (texts.length === 0 && !imageGenerationPrompt && !editImage) {
+        console.warn("Parsing resulted in an empty message. Using raw response as fallback.", { rawResponse });
+        if (rawResponse.trim()) {
+           // If the raw response is a JSON object we failed to parse (possibly truncated), don't show it.
+           if (rawResponse.trim().startsWith('{')) {
+             texts.push("캐릭터가 응답하는 데 문제가 발생했어요. 😥");
+           } else {
+             texts.push(rawResponse);
+           }
+        }
+    }
+
+    return {
+      texts,
+      affinityAdjustment: turn.affinityAdjustment,
+      sexyMoodAdjustment: turn.sexyMoodAdjustment,
+      hasLeft: turn.commands.some(c => c.type === 'LEAVE_CHAT'),
+      imageGenerationPrompt,
+      editImage,
+      editImagePrompt,
+      memories,
+    };
+};
+
+/**
+ * Returns the chat bubbles that are already complete in a partially streamed response.
+ * A bubble is complete once the text after it has started: the next JSON array entry, the next `|||`, or `COMMANDS:`.
+ * Legacy bubbles get the same cleanup as a parsed turn, but since each is cleaned on its own they can still differ
+ * from the final texts (a quote around the whole message, say); the caller reconciles them once the turn is parsed.
+ */
+export const extractCompletedMessages = (partialResponse: string, useStructuredOutput: boolean): string[] => {
+    const jsonMessagesStart = partialResponse.search(/"messages"\s*:\s*\[/);
+    if (useStructuredOutput && jsonMessagesStart !== -1) {
+        const arrayBody = partialResponse.slice(partialResponse.indexOf('[', jsonMessagesStart) + 1);
+        const completed: string[] = [];
+        const stringLiteral = /\s*("(?:[^"\\]|\\.)*")\s*([,\]])/y;
+        let match: RegExpExecArray | null;
+        while ((match = stringLiteral.exec(arrayBody)) !== null) {
+            try {
+                completed.push(...(JSON.parse(match[1]) as string).split('|||'));
+            } catch (e) {
+                break;
+            }
+            if (match[2] === ']') break;
+        }
+        return completed.map(m => m.trim()).filter(m => m.length > 0);
+    }
+
+    const messageMatch = partialResponse.match(/(?:MESSAGE|inMESSAGE):([\s\S]*)/i);
+    if (!messageMatch) return [];
+    const commandsIndex = messageMatch[1].indexOf('COMMANDS:');
+    const segments = (commandsIndex === -1 ? messageMatch[1] : messageMatch[1].slice(0, commandsIndex)).split('|||');
+    if (commandsIndex === -1) segments.pop(); // The last segment may still be growing
+    return segments
+        .map(cleanLegacyMessage)
+        .filter(m => m.length > 0);
+};
@@ -1,9 +1,192 @@
-import type { Character } from '../types';
+import type { Character, CharacterMemory, Conversations, ImageJob, Message, UserGender } from '../types';
 
 const DB_NAME = 'ai_chat_db';
-const DB_VERSION = 2; // Incremented version to trigger onupgradeneeded
 const AVATAR_STORE_NAME = 'avatars';
 const CHAR_DATA_STORE_NAME = 'character_data';
+const MESSAGES_STORE_NAME = 'messages';
+const MESSAGES_BY_CHARACTER_TIME_INDEX = 'by_character_time';
+const PROFILE_STATE_STORE_NAME = 'profile_state';
+const MEMORIES_STORE_NAME = 'memories';
+const IMAGE_JOBS_STORE_NAME = 'image_jobs';
+const BRANCHES_STORE_NAME = 'branches';
+
+// localStorage keys that held per-profile state before it moved into IndexedDB.
+const LEGACY_CONVERSATIONS_KEY_PREFIX = 'ai_chat_conversations_';
+const LEGACY_ACTIVE_CHARACTERS_KEY_PREFIX = 'ai_chat_active_characters_';
+
+export const MESSAGE_PAGE_SIZE = 50;
+
+// Images are stored as Blobs instead of data URLs; transient loading state is never persisted.
+interface StoredMessage extends Omit<Message, 'timestamp' | 'imageUrls' | 'isLoading' | 'loadingText'> {
+    characterId: string;
+    timestamp: number;
+    images?: Blob[];
+}
+
+export type CharacterShell = Partial<Character> & { id: string };
+
+export const getAvatarKey = (gender: UserGender, characterId: string) => `ai_chat_avatar_${gender}_${characterId}`;
+// Pinned face reference images are kept in the avatar store under their own key.
+export const getReferenceImageKey = (gender: UserGender, characterId: string) => `ai_chat_reference_${gender}_${characterId}`;
+
+const conversationsKey = (gender: UserGender) => `conversations_${gender}`;
+const activeCharactersKey = (gender: UserGender) => `active_characters_${gender}`;
+
+// --- Schema Migrations ---
+
+interface Migration {
+    version: number;
+    description: string;
+    /**
+     * Runs inside the upgrade's `versionchange` transaction. Steps may only issue IndexedDB requests
+     * (no awaiting fetch or timers), otherwise the transaction commits before they finish.
+     */
+    migrate: (db: IDBDatabase, tx: IDBTransaction) => void;
+}
+
+const dataUrlToBlob = (dataUrl: string): Blob => {
+    const [header, data] = dataUrl.split(',');
+    const mimeType = header.match(/^data:([^;]+)/)?.[1] || 'application/octet-stream';
+    if (!header.endsWith(';base64')) {
+        return new Blob([decodeURIComponent(data)], { type: mimeType });
+    }
+    const binary = atob(data);
+    const bytes = new Uint8Array(binary.length);
+    for (let i = 0; i < binary.length; i++) {
+        bytes[i] = binary.charCodeAt(i);
+    }
+    return new Blob([bytes], { type: mimeType });
+};
+
+const readLegacyJson = (key: string): unknown => {
+    try {
+        const stored = localStorage.getItem(key);
+        return stored ? JSON.parse(stored) : null;
+    } catch (error) {
+        console.error(`Failed to read legacy localStorage key '${key}'`, error);
+        return null;
+    }
+};
+
+const importLegacyLocalStorage = (tx: IDBTransaction): string[] => {
+    const stateStore = tx.objectStore(PROFILE_STATE_STORE_NAME);
+    const messageStore = tx.objectStore(MESSAGES_STORE_NAME);
+    const importedKeys: string[] = [];
+
+    for (const gender of ['male', 'female'] as UserGender[]) {
+        const shellsKey = `${LEGACY_ACTIVE_CHARACTERS_KEY_PREFIX}${gender}`;
+        const shells = readLegacyJson(shellsKey);
+        if (Array.isArray(shells)) {
+            stateStore.put(shells, activeCharactersKey(gender));
+            importedKeys.push(shellsKey);
+        }
+
+        const convKey = `${LEGACY_CONVERSATIONS_KEY_PREFIX}${gender}`;
+        const conversations = readLegacyJson(convKey) as Conversations | null;
+        if (conversations && typeof conversations === 'object') {
+            for (const conv of Object.values(conversations)) {
+                // Older builds kept the last 30 messages inline; move them into the message store.
+                (conv.messages || []).forEach(({ imageUrls, isLoading, loadingText, ...msg }) => {
+                    const stored: StoredMessage = { ...msg, characterId: conv.characterId, timestamp: new Date(msg.timestamp).getTime() };
+                    messageStore.put(stored);
+                });
+                conv.messages = [];
+            }
+            stateStore.put(conversations, conversationsKey(gender));
+            importedKeys.push(convKey);
+        }
+    }
+    return importedKeys;
+};
+
+// Legacy keys are only removed once the upgrade transaction has committed.
+let legacyKeysToRemove: string[] = [];
+
+const MIGRATIONS: Migration[] = [
+    {
+        version: 1,
+        description: 'Create avatar store',
+        migrate: (db) => {
+            if (!db.objectStoreNames.contains(AVATAR_STORE_NAME)) {
+                db.createObjectStore(AVATAR_STORE_NAME);
+            }
+        },
+    },
+    {
+        version: 2,
+        description: 'Create custom character store',
+        migrate: (db) => {
+            if (!db.objectStoreNames.contains(CHAR_DATA_STORE_NAME)) {
+                db.createObjectStore(CHAR_DATA_STORE_NAME, { keyPath: 'id' });
+            }
+        },
+    },
+    {
+        version: 3,
+        description: 'Create message store with a per-character timeline index',
+        migrate: (db) => {
+            if (!db.objectStoreNames.contains(MESSAGES_STORE_NAME)) {
+                const messageStore = db.createObjectStore(MESSAGES_STORE_NAME, { keyPath: ['characterId', 'id'] });
+                // The message id breaks ties between messages sent in the same millisecond when paging.
+                messageStore.createIndex(MESSAGES_BY_CHARACTER_TIME_INDEX, ['characterId', 'timestamp', 'id']);
+            }
+        },
+    },
+    {
+        version: 4,
+        description: 'Store avatars as Blobs instead of data URLs',
+        migrate: (_db, tx) => {
+            const request = tx.objectStore(AVATAR_STORE_NAME).openCursor();
+            request.onsuccess = () => {
+                const cursor = request.result;
+                if (!cursor) return;
+                if (typeof cursor.value === 'string' && cursor.value.startsWith('data:')) {
+                    cursor.update(dataUrlToBlob(cursor.value));
+                }
+                cursor.continue();
+            };
+        },
+    },
+    {
+        version: 5,
+        description: 'Move conversations and active characters out of localStorage',
+        migrate: (db, tx) => {
+            if (!db.objectStoreNames.contains(PROFILE_STATE_STORE_NAME)) {
+                db.createObjectStore(PROFILE_STATE_STORE_NAME);
+            }
+            legacyKeysToRemove = importLegacyLocalStorage(tx);
+        },
+    },
+    {
+        version: 6,
+        description: 'Create long-term memory store',
+        migrate: (db) => {
+            if (!db.objectStoreNames.contains(MEMORIES_STORE_NAME)) {
+                db.createObjectStore(MEMORIES_STORE_NAME, { keyPath: ['characterId', 'id'] });
+            }
+        },
+    },
+    {
+        version: 7,
+        description: 'Create image job queue store',
+        migrate: (db) => {
+            if (!db.objectStoreNames.contains(IMAGE_JOBS_STORE_NAME)) {
+                db.createObjectStore(IMAGE_JOBS_STORE_NAME, { keyPath: 'id' });
+            }
+        },
+    },
+    {
+        version: 8,
+        description: 'Create conversation branch store',
+        migrate: (db) => {
+            if (!db.objectStoreNames.contains(BRANCHES_STORE_NAME)) {
+                db.createObjectStore(BRANCHES_STORE_NAME, { keyPath: ['characterId', 'id'] });
+            }
+        },
+    },
+];
+
+const DB_VERSION = MIGRATIONS[MIGRATIONS.length - 1].version;
 
 let dbPromise: Promise<IDBDatabase> | null = null;
 
@@ -13,13 +196,24 @@ const getDb = (): Promise<IDBDatabase> => {
             const request = indexedDB.open(DB_NAME, DB_VERSION);
 
             request.onupgradeneeded = (event) => {
-                const db = (event.target as IDBOpenDBRequest).result;
-                if (!db.objectStoreNames.contains(AVATAR_STORE_NAME)) {
-                    db.createObjectStore(AVATAR_STORE_NAME);
-                }
-                if (!db.objectStoreNames.contains(CHAR_DATA_STORE_NAME)) {
-                    db.createObjectStore(CHAR_DATA_STORE_NAME, { keyPath: 'id' });
+                const db = request.result;
+                const tx = request.transaction!;
+                const pending = MIGRATIONS.filter(m => m.version > event.oldVersion && m.version <= DB_VERSION);
+                for (const migration of pending) {
+                    try {
+                        migration.migrate(db, tx);
+                    } catch (error) {
+                        // Aborting rolls back every step of this upgrade; the database stays at its old version.
+                        console.error(`IndexedDB migration to v${migration.version} (${migration.description}) failed`, error);
+                        legacyKeysToRemove = [];
+                        tx.abort();
+                        return;
+                    }
                 }
+                tx.oncomplete = () => {
+                    legacyKeysToRemove.forEach(key => localStorage.removeItem(key));
+                    legacyKeysToRemove = [];
+                };
             };
 
             request.onsuccess = () => {
@@ -28,6 +222,7 @@ const getDb = (): Promise<IDBDatabase> => {
 
             request.onerror = () => {
                 console.error('IndexedDB error:', request.error);
+                dbPromise = null; // Allow a later call to retry the upgrade
                 reject(request.error);
             };
         });
@@ -39,10 +234,11 @@ const getDb = (): Promise<IDBDatabase> => {
 
 export const saveAvatar = async (key: string, avatarData: string): Promise<void> => {
     try {
+        const avatarBlob = await (await fetch(avatarData)).blob();
         const db = await getDb();
         const tx = db.transaction(AVATAR_STORE_NAME, 'readwrite');
         const store = tx.objectStore(AVATAR_STORE_NAME);
-        store.put(avatarData, key);
+        store.put(avatarBlob, key);
         await new Promise<void>((resolve, reject) => {
             tx.oncomplete = () => resolve();
             tx.onerror = () => reject(tx.error);
@@ -60,9 +256,12 @@ export const getAvatar = async (key: string): Promise<string | null> => {
         const store = tx.objectStore(AVATAR_STORE_NAME);
         const request = store.get(key);
         
+        // Returns an object URL for the stored Blob so callers can use it directly as an image source.
         return await new Promise<string | null>((resolve, reject) => {
             request.onsuccess = () => {
-                resolve(request.result || null);
+                const avatar: Blob | string | undefined = request.result;
+                if (!avatar) resolve(null);
+                else resolve(typeof avatar === 'string' ? avatar : URL.createObjectURL(avatar));
             };
             request.onerror = () => {
                 reject(request.error);
@@ -142,3 +341,380 @@ export const deleteCharacter = async (id: string): Promise<void> => {
         console.error(`Failed to delete character '${id}' from IndexedDB`, error);
     }
 };
+
+// --- Message Store Functions ---
+
+const toStoredMessage = async (characterId: string, message: Message): Promise<StoredMessage> => {
+    const { imageUrls, isLoading, loadingText, timestamp, ...rest } = message;
+    const images = imageUrls?.length
+        ? await Promise.all(imageUrls.map(async url => (await fetch(url)).blob()))
+        : undefined;
+    return { ...rest, characterId, timestamp: new Date(timestamp).getTime(), images };
+};
+
+const fromStoredMessage = (stored: StoredMessage): Message => {
+    const { characterId, images, timestamp, ...rest } = stored;
+    return {
+        ...rest,
+        timestamp: new Date(timestamp),
+        imageUrls: images?.length ? images.map(blob => URL.createObjectURL(blob)) : undefined,
+    };
+};
+
+export const saveMessages = async (characterId: string, messages: Message[]): Promise<void> => {
+    if (messages.length === 0) return;
+    try {
+        // Blobs must be fetched before the transaction opens; it would auto-commit while awaiting.
+        const storedMessages = await Promise.all(messages.map(msg => toStoredMessage(characterId, msg)));
+        const db = await getDb();
+        const tx = db.transaction(MESSAGES_STORE_NAME, 'readwrite');
+        const store = tx.objectStore(MESSAGES_STORE_NAME);
+        storedMessages.forEach(msg => store.put(msg));
+        await new Promise<void>((resolve, reject) => {
+            tx.oncomplete = () => resolve();
+            tx.onerror = () => reject(tx.error);
+        });
+    } catch (error) {
+        console.error(`Failed to save messages for '${characterId}' to IndexedDB`, error);
+        throw error;
+    }
+};
+
+/**
+ * Loads the newest `limit` messages older than `before` (or the newest overall), in chronological order.
+ */
+export const getMessagesPage = async (
+    characterId: string,
+    before?: Message,
+    limit: number = MESSAGE_PAGE_SIZE
+): Promise<{ messages: Message[]; hasMore: boolean }> => {
+    try {
+        const db = await getDb();
+        const tx = db.transaction(MESSAGES_STORE_NAME, 'readonly');
+        const index = tx.objectStore(MESSAGES_STORE_NAME).index(MESSAGES_BY_CHARACTER_TIME_INDEX);
+        const range = before
+            ? IDBKeyRange.bound([characterId], [characterId, new Date(before.timestamp).getTime(), before.id], false, true)
+            : IDBKeyRange.bound([characterId], [characterId, []]);
+        const request = index.openCursor(range, 'prev');
+
+        const collected = await new Promise<StoredMessage[]>((resolve, reject) => {
+            const results: StoredMessage[] = [];
+            request.onsuccess = () => {
+                const cursor = request.result;
+                // Read one extra record to know whether an older page exists.
+                if (cursor && results.length <= limit) {
+                    results.push(cursor.value);
+                    cursor.continue();
+                } else {
+                    resolve(results);
+                }
+            };
+            request.onerror = () => {
+                reject(request.error);
+            };
+        });
+
+        return {
+            messages: collected.slice(0, limit).reverse().map(fromStoredMessage),
+            hasMore: collected.length > limit,
+        };
+    } catch (error) {
+        console.error(`Failed to get messages for '${characterId}' from IndexedDB`, error);
+        return { messages: [], hasMore: false };
+    }
+};
+
+export const getAllMessages = async (characterId: string): Promise<Message[]> =>
+    (await getMessagesPage(characterId, undefined, Number.POSITIVE_INFINITY)).messages;
+
+/** Every stored message plus loaded ones that haven't been written yet, oldest first. */
+export const getFullHistory = async (characterId: string, loaded: Message[]): Promise<Message[]> => {
+    const stored = await getAllMessages(characterId);
+    const storedIds = new Set(stored.map(m => m.id));
+    const pending = loaded.filter(m => !m.isLoading && !storedIds.has(m.id));
+    return [...stored, ...pending].sort((a, b) => new Date(a.timestamp).getTime() - new Date(b.timestamp).getTime());
+};
+
+export const deleteMessage = async (characterId: string, messageId: string): Promise<void> => {
+    try {
+        const db = await getDb();
+        const tx = db.transaction(MESSAGES_STORE_NAME, 'readwrite');
+        const store = tx.objectStore(MESSAGES_STORE_NAME);
+        store.delete([characterId, messageId]);
+        await new Promise<void>((resolve, reject) => {
+            tx.oncomplete = () => resolve();
+            tx.onerror = () => reject(tx.error);
+        });
+    } catch (error) {
+        console.error(`Failed to delete message '${messageId}' for '${characterId}' from IndexedDB`, error);
+        throw error;
+    }
+};
+
+export const deleteMessages = async (characterId: string): Promise<void> => {
+    try {
+        const db = await getDb();
+        const tx = db.transaction(MESSAGES_STORE_NAME, 'readwrite');
+        const store = tx.objectStore(MESSAGES_STORE_NAME);
+        store.delete(IDBKeyRange.bound([characterId], [characterId, []]));
+        await new Promise<void>((resolve, reject) => {
+            tx.oncomplete = () => resolve();
+            tx.onerror = () => reject(tx.error);
+        });
+    } catch (error) {
+        console.error(`Failed to delete messages for '${characterId}' from IndexedDB`, error);
+    }
+};
+
+// --- Branch Store Functions ---
+
+// The messages of a conversation branch that isn't shown; the branch's metadata lives in the conversation state.
+interface StoredBranch {
+    characterId: string;
+    id: string;
+    messages: StoredMessage[];
+}
+
+/** Moves messages out of the message store into a stored branch, in one transaction. */
+export const archiveBranchMessages = async (characterId: string, branchId: string, messages: Message[]): Promise<void> => {
+    try {
+        const storedMessages = await Promise.all(messages.filter(msg => !msg.isLoading).map(msg => toStoredMessage(characterId, msg)));
+        const db = await getDb();
+        const tx = db.transaction([BRANCHES_STORE_NAME, MESSAGES_STORE_NAME], 'readwrite');
+        const branch: StoredBranch = { characterId, id: branchId, messages: storedMessages };
+        tx.objectStore(BRANCHES_STORE_NAME).put(branch);
+        const messageStore = tx.objectStore(MESSAGES_STORE_NAME);
+        messages.forEach(msg => messageStore.delete([characterId, msg.id]));
+        await new Promise<void>((resolve, reject) => {
+            tx.oncomplete = () => resolve();
+            tx.onerror = () => reject(tx.error);
+        });
+    } catch (error) {
+        console.error(`Failed to archive branch '${branchId}' for '${characterId}' in IndexedDB`, error);
+        throw error;
+    }
+};
+
+/** Moves a stored branch's messages back into the message store and returns them, oldest first. */
+export const restoreBranchMessages = async (characterId: string, branchId: string): Promise<Message[]> => {
+    try {
+        const db = await getDb();
+        const tx = db.transaction([BRANCHES_STORE_NAME, MESSAGES_STORE_NAME], 'readwrite');
+        const branchStore = tx.objectStore(BRANCHES_STORE_NAME);
+        const request = branchStore.get([characterId, branchId]);
+        let restored: StoredMessage[] = [];
+        request.onsuccess = () => {
+            const branch: StoredBranch | undefined = request.result;
+            if (!branch) return;
+            restored = branch.messages;
+            const messageStore = tx.objectStore(MESSAGES_STORE_NAME);
+            restored.forEach(msg => messageStore.put(msg));
+            branchStore.delete([characterId, branchId]);
+        };
+        await new Promise<void>((resolve, reject) => {
+            tx.oncomplete = () => resolve();
+            tx.onerror = () => reject(tx.error);
+        });
+        if (restored.length === 0) throw new Error(`Branch '${branchId}' has no stored messages`);
+        return restored.sort((a, b) => a.timestamp - b.timestamp).map(fromStoredMessage);
+    } catch (error) {
+        console.error(`Failed to restore branch '${branchId}' for '${characterId}' from IndexedDB`, error);
+        throw error;
+    }
+};
+
+export const deleteBranches = async (characterId: string): Promise<void> => {
+    try {
+        const db = await getDb();
+        const tx = db.transaction(BRANCHES_STORE_NAME, 'readwrite');
+        tx.objectStore(BRANCHES_STORE_NAME).delete(IDBKeyRange.bound([characterId], [characterId, []]));
+        await new Promise<void>((resolve, reject) => {
+            tx.oncomplete = () => resolve();
+            tx.onerror = () => reject(tx.error);
+        });
+    } catch (error) {
+        console.error(`Failed to delete branches for '${characterId}' from IndexedDB`, error);
+    }
+};
+
+// --- Memory Store Functions ---
+
+type StoredMemory = CharacterMemory & { characterId: string };
+
+export const saveMemories = async (characterId: string, memories: CharacterMemory[]): Promise<void> => {
+    if (memories.length === 0) return;
+    try {
+        const db = await getDb();
+        const tx = db.transaction(MEMORIES_STORE_NAME, 'readwrite');
+        const store = tx.objectStore(MEMORIES_STORE_NAME);
+        memories.forEach(memory => {
+            const stored: StoredMemory = { ...memory, characterId };
+            store.put(stored);
+        });
+        await new Promise<void>((resolve, reject) => {
+            tx.oncomplete = () => resolve();
+            tx.onerror = () => reject(tx.error);
+        });
+    } catch (error) {
+        console.error(`Failed to save memories for '${characterId}' to IndexedDB`, error);
+        throw error;
+    }
+};
+
+/** All remembered facts for a character, oldest first. */
+export const getMemories = async (characterId: string): Promise<CharacterMemory[]> => {
+    try {
+        const db = await getDb();
+        const tx = db.transaction(MEMORIES_STORE_NAME, 'readonly');
+        const store = tx.objectStore(MEMORIES_STORE_NAME);
+        const request = store.getAll(IDBKeyRange.bound([characterId], [characterId, []]));
+
+        const stored = await new Promise<StoredMemory[]>((resolve, reject) => {
+            request.onsuccess = () => {
+                resolve(request.result);
+            };
+            request.onerror = () => {
+                reject(request.error);
+            };
+        });
+        return stored
+            .map(({ characterId: _, ...memory }) => memory)
+            .sort((a, b) => a.createdAt - b.createdAt);
+    } catch (error) {
+        console.error(`Failed to get memories for '${characterId}' from IndexedDB`, error);
+        return [];
+    }
+};
+
+export const deleteMemory = async (characterId: string, memoryId: string): Promise<void> => {
+    try {
+        const db = await getDb();
+        const tx = db.transaction(MEMORIES_STORE_NAME, 'readwrite');
+        const store = tx.objectStore(MEMORIES_STORE_NAME);
+        store.delete([characterId, memoryId]);
+        await new Promise<void>((resolve, reject) => {
+            tx.oncomplete = () => resolve();
+            tx.onerror = () => reject(tx.error);
+        });
+    } catch (error) {
+        console.error(`Failed to delete memory '${memoryId}' for '${characterId}' from IndexedDB`, error);
+    }
+};
+
+export const deleteMemories = async (characterId: string): Promise<void> => {
+    try {
+        const db = await getDb();
+        const tx = db.transaction(MEMORIES_STORE_NAME, 'readwrite');
+        const store = tx.objectStore(MEMORIES_STORE_NAME);
+        store.delete(IDBKeyRange.bound([characterId], [characterId, []]));
+        await new Promise<void>((resolve, reject) => {
+            tx.oncomplete = () => resolve();
+            tx.onerror = () => reject(tx.error);
+        });
+    } catch (error) {
+        console.error(`Failed to delete memories for '${characterId}' from IndexedDB`, error);
+    }
+};
+
+// --- Image Job Store Functions ---
+
+export const saveImageJob = async (job: ImageJob): Promise<void> => {
+    try {
+        const db = await getDb();
+        const tx = db.transaction(IMAGE_JOBS_STORE_NAME, 'readwrite');
+        tx.objectStore(IMAGE_JOBS_STORE_NAME).put(job);
+        await new Promise<void>((resolve, reject) => {
+            tx.oncomplete = () => resolve();
+            tx.onerror = () => reject(tx.error);
+        });
+    } catch (error) {
+        console.error(`Failed to save image job '${job.id}' to IndexedDB`, error);
+    }
+};
+
+/** Unfinished image jobs of a profile, oldest first. */
+export const getImageJobs = async (profile: UserGender): Promise<ImageJob[]> => {
+    try {
+        const db = await getDb();
+        const tx = db.transaction(IMAGE_JOBS_STORE_NAME, 'readonly');
+        const request = tx.objectStore(IMAGE_JOBS_STORE_NAME).getAll();
+
+        const jobs = await new Promise<ImageJob[]>((resolve, reject) => {
+            request.onsuccess = () => {
+                resolve(request.result);
+            };
+            request.onerror = () => {
+                reject(request.error);
+            };
+        });
+        return jobs.filter(job => job.profile === profile).sort((a, b) => a.createdAt - b.createdAt);
+    } catch (error) {
+        console.error(`Failed to get image jobs for '${profile}' from IndexedDB`, error);
+        return [];
+    }
+};
+
+export const deleteImageJob = async (jobId: string): Promise<void> => {
+    try {
+        const db = await getDb();
+        const tx = db.transaction(IMAGE_JOBS_STORE_NAME, 'readwrite');
+        tx.objectStore(IMAGE_JOBS_STORE_NAME).delete(jobId);
+        await new Promise<void>((resolve, reject) => {
+            tx.oncomplete = () => resolve();
+            tx.onerror = () => reject(tx.error);
+        });
+    } catch (error) {
+        console.error(`Failed to delete image job '${jobId}' from IndexedDB`, error);
+    }
+};
+
+// --- Profile State Functions ---
+
+const getProfileState = async <T>(key: string): Promise<T | null> => {
+    try {
+        const db = await getDb();
+        const tx = db.transaction(PROFILE_STATE_STORE_NAME, 'readonly');
+        const store = tx.objectStore(PROFILE_STATE_STORE_NAME);
+        const request = store.get(key);
+
+        return await new Promise<T | null>((resolve, reject) => {
+            request.onsuccess = () => {
+                resolve(request.result ?? null);
+            };
+            request.onerror = () => {
+                reject(request.error);
+            };
+        });
+    } catch (error) {
+        console.error(`Failed to get profile state '${key}' from IndexedDB`, error);
+        return null;
+    }
+};
+
+const saveProfileState = async (key: string, value: unknown): Promise<void> => {
+    try {
+        const db = await getDb();
+        const tx = db.transaction(PROFILE_STATE_STORE_NAME, 'readwrite');
+        const store = tx.objectStore(PROFILE_STATE_STORE_NAME);
+        store.put(value, key);
+        await new Promise<void>((resolve, reject) => {
+            tx.oncomplete = () => resolve();
+            tx.onerror = () => reject(tx.error);
+        });
+    } catch (error) {
+        console.error(`Failed to save profile state '${key}' to IndexedDB`, error);
+    }
+};
+
+/** Conversation state per character; messages are kept in their own store and are always empty here. */
+export const getConversations = (gender: UserGender): Promise<Conversations | null> =>
+    getProfileState<Conversations>(conversationsKey(gender));
+
+export const saveConversations = (gender: UserGender, conversations: Conversations): Promise<void> =>
+    saveProfileState(conversationsKey(gender), conversations);
+
+export const getActiveCharacters = (gender: UserGender): Promise<CharacterShell[] | null> =>
+    getProfileState<CharacterShell[]>(activeCharactersKey(gender));
+
+export const saveActiveCharacters = (gender: UserGender, shells: CharacterShell[]): Promise<void> =>
+    saveProfileState(activeCharactersKey(gender), shells);
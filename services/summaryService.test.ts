@@ -0,0 +1,81 @@
+import { describe, expect, it } from 'vitest';
+import { FEMALE_CHARACTERS } from '../constants';
+import type { Conversation, Message } from '../types';
+import { buildChatContents, MAX_HISTORY_CONTENTS } from './chatHistory';
+import { buildSystemPrompt } from './promptBuilder';
+import { SUMMARY_RECENT_MESSAGES, SUMMARY_REFRESH_BATCH, needsSummaryRefresh, renderSummaryRequest, selectMessagesToSummarize } from './summaryService';
+
+const sumin = FEMALE_CHARACTERS.find(c => c.id === 'sumin')!;
+const start = new Date('2025-01-01T10:00:00').getTime();
+
+const makeMessages = (count: number): Message[] => Array.from({ length: count }, (_, i) => ({
+  id: `m${i}`,
+  sender: i % 2 === 0 ? 'user' : 'ai',
+  text: `메시지 ${i}`,
+  timestamp: new Date(start + i * 1000),
+}));
+
+const conversation = (messages: Message[], summary?: Conversation['summary']): Conversation => ({
+  characterId: sumin.id, messages, summary, affinity: 50, sexyMood: 20, chatActive: true, hasUnreadMessages: false,
+});
+
+describe('selectMessagesToSummarize', () => {
+  it('keeps the recent window out of the summary', () => {
+    const messages = makeMessages(SUMMARY_RECENT_MESSAGES + 5);
+    expect(selectMessagesToSummarize(messages).map(m => m.id)).toEqual(['m0', 'm1', 'm2', 'm3', 'm4']);
+    expect(selectMessagesToSummarize(makeMessages(SUMMARY_RECENT_MESSAGES))).toEqual([]);
+  });
+
+  it('skips messages the summary already covers, plus errors and loading placeholders', () => {
+    const messages = makeMessages(SUMMARY_RECENT_MESSAGES + 6);
+    messages[3] = { ...messages[3], isError: true };
+    messages[4] = { ...messages[4], isLoading: true };
+    const summary = { text: '- 요약', coveredUntil: start + 1000, updatedAt: start };
+    expect(selectMessagesToSummarize(messages, summary).map(m => m.id)).toEqual(['m2', 'm5']);
+  });
+});
+
+describe('summary and sent history', () => {
+  // Every message is either folded into the summary or quoted verbatim by both the text and the voice prompt.
+  const expectNoGap = (allMessages: Message[], summarized: Message[]) => {
+    // Closing each text with a period keeps '메시지 1' from matching inside '메시지 10'.
+    const messages = allMessages.map(msg => ({ ...msg, text: `${msg.text}.` }));
+    const summary = { text: '- 요약', coveredUntil: summarized[summarized.length - 1].timestamp.getTime(), updatedAt: start };
+    const sentTexts = buildChatContents(messages, undefined, MAX_HISTORY_CONTENTS, summary.coveredUntil).flatMap(c => c.parts.map(p => 'text' in p ? p.text : ''));
+    const voicePrompt = buildSystemPrompt(sumin, 'voice', { conversation: conversation(messages, summary) });
+    for (const msg of messages.slice(summarized.length)) {
+      expect(sentTexts).toContain(msg.text);
+      expect(voicePrompt).toContain(msg.text);
+    }
+  };
+
+  it('leaves no gap right after a refresh', () => {
+    const messages = makeMessages(SUMMARY_RECENT_MESSAGES + SUMMARY_REFRESH_BATCH);
+    expectNoGap(messages, selectMessagesToSummarize(messages));
+  });
+
+  it('leaves no gap while the next refresh is still pending', () => {
+    const messages = makeMessages(80);
+    expectNoGap(messages, selectMessagesToSummarize(messages.slice(0, 30)));
+  });
+});
+
+describe('needsSummaryRefresh', () => {
+  it('waits for a full batch beyond the recent window', () => {
+    expect(needsSummaryRefresh(conversation(makeMessages(SUMMARY_RECENT_MESSAGES + SUMMARY_REFRESH_BATCH - 1)))).toBe(false);
+    expect(needsSummaryRefresh(conversation(makeMessages(SUMMARY_RECENT_MESSAGES + SUMMARY_REFRESH_BATCH)))).toBe(true);
+  });
+});
+
+describe('renderSummaryRequest', () => {
+  it('labels speakers and includes the previous summary', () => {
+    const messages: Message[] = [
+      { id: 'a', sender: 'user', text: '나 민준이야', timestamp: new Date(start) },
+      { id: 'b', sender: 'ai', text: '', imageUrls: ['blob:x'], timestamp: new Date(start + 1) },
+    ];
+    expect(renderSummaryRequest(sumin, '- 카페에서 만났다.', messages)).toBe(
+      '캐릭터: 최수민\n\n[기존 요약]\n- 카페에서 만났다.\n\n[새 대화]\n유저: 나 민준이야\n최수민: (사진을 보냄)'
+    );
+    expect(renderSummaryRequest(sumin, undefined, messages)).toContain('[기존 요약]\n(없음)');
+  });
+});
@@ -0,0 +1,69 @@
+import type { Character, Conversation, ConversationSummary, Message } from '../types';
+import * as storageService from './storageService';
+import { getChatProvider } from './providers';
+import { VOICE_HISTORY_MESSAGES } from './promptBuilder';
+
+// Messages left out of the summary: the smallest window every prompt sends verbatim, the voice prompt's.
+// Unsummarized messages older than that are sent verbatim too until the next refresh folds them in.
+export const SUMMARY_RECENT_MESSAGES = VOICE_HISTORY_MESSAGES;
+// How many messages must fall out of the recent window before the summary is refreshed.
+export const SUMMARY_REFRESH_BATCH = 20;
+
+const SUMMARIZER_INSTRUCTION = `너는 채팅 앱의 대화 기록을 요약하는 도우미야. 기존 요약과 새로 추가된 대화를 합쳐서 하나의 갱신된 요약을 만들어.
+- 유저의 이름, 호칭, 나이, 직업, 취향처럼 유저에 대해 알게 된 사실은 반드시 남겨.
+- 두 사람 사이에 있었던 중요한 사건, 약속, 관계나 감정의 변화를 남겨.
+- 캐릭터가 자기 자신에 대해 새로 말한 사실을 남겨.
+- 인사나 의미 없는 잡담은 생략해.
+- 3인칭으로, 한국어 글머리표(- ) 목록으로, 15줄을 넘기지 마.
+- 요약 말고 다른 말은 쓰지 마.`;
+
+const isSummarizable = (msg: Message) => !msg.isLoading && !msg.isError && (!!msg.text || !!msg.imageUrls?.length);
+
+const timeOf = (msg: Message) => new Date(msg.timestamp).getTime();
+
+/** Messages older than the recent window that the summary doesn't cover yet, oldest first. */
+export const selectMessagesToSummarize = (messages: Message[], summary?: ConversationSummary): Message[] => {
+    return messages.slice(0, Math.max(0, messages.length - SUMMARY_RECENT_MESSAGES))
+        .filter(msg => isSummarizable(msg) && timeOf(msg) > (summary?.coveredUntil ?? 0));
+};
+
+/** Cheap check on the loaded messages, run after every turn. */
+export const needsSummaryRefresh = (conversation: Conversation): boolean =>
+    selectMessagesToSummarize(conversation.messages, conversation.summary).length >= SUMMARY_REFRESH_BATCH;
+
+export const renderSummaryRequest = (character: Character, previous: string | undefined, messages: Message[]): string => {
+    const transcript = messages.map(msg => {
+        const speaker = msg.sender === 'user' ? '유저' : character.name;
+        return `${speaker}: ${msg.text || '(사진을 보냄)'}`;
+    }).join('\n');
+    return `캐릭터: ${character.name}
+
+[기존 요약]
+${previous?.trim() || '(없음)'}
+
+[새 대화]
+${transcript}`;
+};
+
+/**
+ * Folds everything older than the recent window into the conversation's summary.
+ * Reads the full stored history, so pages that were never loaded are included too.
+ * Returns null when there is nothing new to fold in.
+ */
+export const refreshConversationSummary = async (character: Character, conversation: Conversation): Promise<ConversationSummary | null> => {
+    const history = await storageService.getFullHistory(character.id, conversation.messages);
+    const messages = selectMessagesToSummarize(history, conversation.summary);
+    if (messages.length === 0) return null;
+
+    const result = await getChatProvider().generate({
+        tier: 'lite',
+        systemInstruction: SUMMARIZER_INSTRUCTION,
+        contents: renderSummaryRequest(character, conversation.summary?.text, messages),
+        temperature: 0.2,
+    });
+    const text = result.text?.trim();
+    if (!text) {
+        throw new Error(`Summary request returned no text (finishReason: ${result.finishReason ?? 'unknown'}, blockReason: ${result.blockReason ?? 'none'})`);
+    }
+    return { text, coveredUntil: timeOf(messages[messages.length - 1]), updatedAt: Date.now() };
+};
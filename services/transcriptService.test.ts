@@ -0,0 +1,38 @@
+import { describe, expect, it } from 'vitest';
+import { renderHtmlTranscript, renderJsonTranscript, renderMarkdownTranscript } from './transcriptService';
+import type { Character, Message } from '../types';
+
+const character = { id: 'sumin', name: '수민' } as Character;
+const exportedAt = new Date(2025, 0, 2, 9, 0);
+
+const messages: Message[] = [
+  { id: 'a1', text: '오늘 뭐해?', sender: 'ai', timestamp: new Date(2025, 0, 1, 21, 5) },
+  { id: 'u1', text: '집에서 <쉬는 중>', sender: 'user', timestamp: new Date(2025, 0, 1, 21, 6), threadParentId: 'a1' },
+  { id: 'a2', text: '', sender: 'ai', timestamp: new Date(2025, 0, 1, 21, 7), imageUrls: ['data:image/png;base64,AAAA'] },
+];
+
+describe('transcript renderers', () => {
+  it('renders Markdown with senders, timestamps, replies and inline images', () => {
+    const markdown = renderMarkdownTranscript(character, messages, exportedAt);
+    expect(markdown).toContain('# 수민님과의 대화');
+    expect(markdown).toContain('**수민** · 2025-01-01 21:05');
+    expect(markdown).toContain('**나** · 2025-01-01 21:06\n> ↪ 수민: 오늘 뭐해?');
+    expect(markdown).toContain('![사진 1](data:image/png;base64,AAAA)');
+  });
+
+  it('renders escaped, self-contained HTML', () => {
+    const html = renderHtmlTranscript(character, messages, exportedAt);
+    expect(html).toContain('<div class="text">집에서 &lt;쉬는 중&gt;</div>');
+    expect(html).toContain('<div class="reply">↪ 수민: 오늘 뭐해?</div>');
+    expect(html).toContain('<img src="data:image/png;base64,AAAA" alt="사진">');
+    expect(html).not.toMatch(/<link|<script/);
+  });
+
+  it('renders JSON with only the fields each message has', () => {
+    const json = JSON.parse(renderJsonTranscript(character, messages, exportedAt));
+    expect(json.character).toEqual({ id: 'sumin', name: '수민' });
+    expect(json.messages[0]).not.toHaveProperty('threadParentId');
+    expect(json.messages[1]).toMatchObject({ senderName: '나', threadParentId: 'a1' });
+    expect(json.messages[2].imageUrls).toEqual(['data:image/png;base64,AAAA']);
+  });
+});
@@ -0,0 +1,132 @@
+import type { Character, Conversation, Message } from '../types';
+import * as storageService from './storageService';
+import { urlToDataUrl } from './downloadService';
+
+export type TranscriptFormat = 'markdown' | 'html' | 'json';
+
+export const TRANSCRIPT_FILE_EXTENSIONS: Record<TranscriptFormat, string> = {
+    markdown: 'md',
+    html: 'html',
+    json: 'json',
+};
+
+const TRANSCRIPT_MIME_TYPES: Record<TranscriptFormat, string> = {
+    markdown: 'text/markdown',
+    html: 'text/html',
+    json: 'application/json',
+};
+
+const USER_DISPLAY_NAME = '나';
+
+const formatTimestamp = (timestamp: Date): string => {
+    const date = new Date(timestamp);
+    const pad = (n: number) => String(n).padStart(2, '0');
+    return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())} ${pad(date.getHours())}:${pad(date.getMinutes())}`;
+};
+
+const senderName = (message: Message, character: Character) => message.sender === 'ai' ? character.name : USER_DISPLAY_NAME;
+
+const replySnippet = (parent: Message | undefined): string => {
+    if (!parent) return '(삭제된 메시지)';
+    if (parent.text) return parent.text.length > 60 ? `${parent.text.slice(0, 60)}…` : parent.text;
+    return parent.imageUrls?.length ? '📷 사진' : '';
+};
+
+const escapeHtml = (text: string): string =>
+    text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+export const renderMarkdownTranscript = (character: Character, messages: Message[], exportedAt: Date = new Date()): string => {
+    const byId = new Map(messages.map(m => [m.id, m]));
+    const lines = [`# ${character.name}님과의 대화`, '', `_내보낸 시각: ${formatTimestamp(exportedAt)} · 메시지 ${messages.length}개_`, ''];
+
+    for (const msg of messages) {
+        lines.push(`**${senderName(msg, character)}** · ${formatTimestamp(msg.timestamp)}`);
+        if (msg.threadParentId) {
+            const parent = byId.get(msg.threadParentId);
+            lines.push(`> ↪ ${parent ? senderName(parent, character) : ''}: ${replySnippet(parent)}`, '');
+        }
+        if (msg.text) lines.push(msg.text);
+        msg.imageUrls?.forEach((url, i) => lines.push(`![사진 ${i + 1}](${url})`));
+        lines.push('');
+    }
+    return lines.join('\n');
+};
+
+export const renderHtmlTranscript = (character: Character, messages: Message[], exportedAt: Date = new Date()): string => {
+    const byId = new Map(messages.map(m => [m.id, m]));
+    const title = `${escapeHtml(character.name)}님과의 대화`;
+
+    const items = messages.map(msg => {
+        const parent = msg.threadParentId ? byId.get(msg.threadParentId) : undefined;
+        const reply = msg.threadParentId
+            ? `<div class="reply">↪ ${parent ? escapeHtml(senderName(parent, character)) : ''}: ${escapeHtml(replySnippet(parent))}</div>`
+            : '';
+        const text = msg.text ? `<div class="text">${escapeHtml(msg.text)}</div>` : '';
+        const images = (msg.imageUrls || []).map(url => `<img src="${escapeHtml(url)}" alt="사진">`).join('');
+        return `<div class="msg ${msg.sender}${msg.isError ? ' error' : ''}">
+<div class="meta">${escapeHtml(senderName(msg, character))} · ${formatTimestamp(msg.timestamp)}</div>
+${reply}${text}${images}
+</div>`;
+    }).join('\n');
+
+    return `<!DOCTYPE html>
+<html lang="ko">
+<head>
+<meta charset="utf-8">
+<title>${title}</title>
+<style>
+body { background: #000; color: #fff; font-family: sans-serif; max-width: 720px; margin: 0 auto; padding: 24px; }
+h1 { font-size: 20px; } .summary { color: #9ca3af; font-size: 13px; margin-bottom: 24px; }
+.msg { max-width: 75%; margin: 8px 0; padding: 8px 12px; border-radius: 16px; background: #374151; }
+.msg.user { margin-left: auto; background: #2563eb; }
+.msg.error { background: #7f1d1d; }
+.meta { font-size: 11px; color: #d1d5db; margin-bottom: 4px; }
+.reply { font-size: 12px; color: #d1d5db; border-left: 2px solid #9ca3af; padding-left: 6px; margin-bottom: 4px; }
+.text { white-space: pre-wrap; }
+img { display: block; max-width: 100%; border-radius: 8px; margin-top: 6px; }
+</style>
+</head>
+<body>
+<h1>${title}</h1>
+<div class="summary">내보낸 시각: ${formatTimestamp(exportedAt)} · 메시지 ${messages.length}개</div>
+${items}
+</body>
+</html>
+`;
+};
+
+export const renderJsonTranscript = (character: Character, messages: Message[], exportedAt: Date = new Date()): string =>
+    JSON.stringify({
+        character: { id: character.id, name: character.name },
+        exportedAt: exportedAt.toISOString(),
+        messages: messages.map(msg => ({
+            id: msg.id,
+            sender: msg.sender,
+            senderName: senderName(msg, character),
+            timestamp: new Date(msg.timestamp).toISOString(),
+            text: msg.text,
+            ...(msg.threadParentId && { threadParentId: msg.threadParentId }),
+            ...(msg.imageUrls?.length && { imageUrls: msg.imageUrls }),
+            ...(msg.isError && { isError: true }),
+        })),
+    }, null, 2);
+
+const RENDERERS: Record<TranscriptFormat, (character: Character, messages: Message[]) => string> = {
+    markdown: renderMarkdownTranscript,
+    html: renderHtmlTranscript,
+    json: renderJsonTranscript,
+};
+
+/**
+ * Builds a transcript of the whole conversation, including history not yet paged into memory.
+ * Images are inlined as data URLs so the file stays readable on its own.
+ */
+export const exportTranscript = async (character: Character, conversation: Conversation, format: TranscriptFormat): Promise<Blob> => {
+    const messages = await storageService.getFullHistory(character.id, conversation.messages);
+
+    const inlined = await Promise.all(messages.map(async (msg) => msg.imageUrls?.length
+        ? { ...msg, imageUrls: await Promise.all(msg.imageUrls.map(url => urlToDataUrl(url).catch(() => url))) }
+        : msg));
+
+    return new Blob([RENDERERS[format](character, inlined)], { type: `${TRANSCRIPT_MIME_TYPES[format]};charset=utf-8` });
+};
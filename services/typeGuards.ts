@@ -0,0 +1,7 @@
+// Narrowing helpers for untrusted JSON, such as model output and imported files, parsed into `unknown`.
+
+export const isRecord = (value: unknown): value is Record<string, unknown> =>
+    typeof value === 'object' && value !== null && !Array.isArray(value);
+
+export const isStringArray = (value: unknown): value is string[] =>
+    Array.isArray(value) && value.every(item => typeof item === 'string');
@@ -0,0 +1,71 @@
+import { describe, expect, it } from 'vitest';
+import type { Message, ResponseVariant } from '../types';
+import { applyVariant, findLatestTurn, swapVariantStats } from './variantService';
+
+const at = (minute: number) => new Date(2025, 0, 1, 10, minute);
+const ai = (id: string, text: string, minute: number, extra: Partial<Message> = {}): Message => ({ id, text, sender: 'ai', timestamp: at(minute), ...extra });
+const user = (id: string, text: string, minute: number): Message => ({ id, text, sender: 'user', timestamp: at(minute) });
+
+describe('findLatestTurn', () => {
+  it('takes the reply bubbles after the last user message, stopping at images', () => {
+    const variants: ResponseVariant[] = [{ texts: ['안녕', '뭐해?'], affinityAdjustment: 2, sexyMoodAdjustment: 0 }];
+    const messages = [
+      ai('greeting', '반가워', 0),
+      user('u1', '안녕', 1),
+      ai('a0', '안녕', 2, { variants, activeVariant: 0 }),
+      ai('a1', '뭐해?', 2),
+      ai('img', '', 3, { imageUrls: ['blob:x'], media: { source: 'generate', prompt: 'selfie' } }),
+    ];
+    const turn = findLatestTurn(messages);
+    expect(turn?.messages.map(msg => msg.id)).toEqual(['a0', 'a1']);
+    expect(turn?.variants).toBe(variants);
+  });
+
+  it('treats an unrecorded turn as one variant and a failed turn as none', () => {
+    expect(findLatestTurn([user('u1', 'hi', 1), ai('a0', 'old reply', 2)])?.variants)
+      .toEqual([{ texts: ['old reply'], affinityAdjustment: 0, sexyMoodAdjustment: 0 }]);
+    expect(findLatestTurn([user('u1', 'hi', 1), ai('e0', '오류', 2, { isError: true })])?.variants).toEqual([]);
+  });
+
+  it('returns null without a user message or reply', () => {
+    expect(findLatestTurn([ai('greeting', '반가워', 0)])).toBeNull();
+    expect(findLatestTurn([ai('greeting', '반가워', 0), user('u1', 'hi', 1)])).toBeNull();
+  });
+});
+
+describe('applyVariant', () => {
+  it('swaps the turn bubbles and reports the ones that are gone', () => {
+    const messages = [user('u1', 'hi', 1), ai('a0', 'one', 2), ai('a1', 'two', 2), ai('img', '', 3, { imageUrls: ['blob:x'] })];
+    const turn = findLatestTurn(messages)!;
+    const variants = [...turn.variants, { texts: ['new one', 'new two', 'new three'], affinityAdjustment: 1, sexyMoodAdjustment: 0 }];
+
+    const { messages: swapped, removedIds } = applyVariant(messages, turn, variants, 1);
+    expect(swapped.map(msg => [msg.id, msg.text])).toEqual([
+      ['u1', 'hi'], ['a0', 'new one'], ['a0-v1-1', 'new two'], ['a0-v1-2', 'new three'], ['img', ''],
+    ]);
+    expect(swapped[1]).toMatchObject({ variants, activeVariant: 1 });
+    expect(removedIds).toEqual(['a1']);
+
+    const back = applyVariant(swapped, findLatestTurn(swapped)!, variants, 0);
+    expect(back.messages.map(msg => msg.text)).toEqual(['hi', 'one', 'two', '']);
+    expect(back.removedIds).toEqual(['a0-v1-1', 'a0-v1-2']);
+  });
+});
+
+describe('swapVariantStats', () => {
+  const shown: ResponseVariant = { texts: ['one'], affinityAdjustment: 5, sexyMoodAdjustment: -2 };
+  const next: ResponseVariant = { texts: ['two'], affinityAdjustment: -1, sexyMoodAdjustment: 3 };
+  const turnAfter = (userMessage: Message) => findLatestTurn([userMessage, ai('a0', 'one', 2, { variants: [shown, next], activeVariant: 0 })])!;
+
+  it('applies the new adjustments to the stats from before the turn, even when the shown ones were clamped', () => {
+    const turn = turnAfter({ ...user('u1', 'hi', 1), stats: { affinity: 98, sexyMood: 1 } });
+    expect(swapVariantStats({ affinity: 100, sexyMood: 0 }, turn, next)).toEqual({ affinity: 97, sexyMood: 4 });
+    expect(swapVariantStats({ affinity: 97, sexyMood: 4 }, { ...turn, activeVariant: 1 }, { ...next, affinityAdjustment: 0 })).toEqual({ affinity: 98, sexyMood: 4 });
+  });
+
+  it('takes back the shown adjustments when the user message has no stats snapshot', () => {
+    const turn = turnAfter(user('u1', 'hi', 1));
+    expect(swapVariantStats({ affinity: 50, sexyMood: 10 }, turn, next)).toEqual({ affinity: 44, sexyMood: 15 });
+    expect(swapVariantStats({ affinity: 99, sexyMood: 0 }, { ...turn, variants: [] }, { ...next, affinityAdjustment: 5 })).toEqual({ affinity: 100, sexyMood: 3 });
+  });
+});
@@ -0,0 +1,79 @@
+import type { ConversationStats, Message, ResponseVariant } from '../types';
+
+export interface LatestTurn {
+    // The turn's first bubble; it carries the variants.
+    anchor: Message;
+    messages: Message[];
+    variants: ResponseVariant[];
+    activeVariant: number;
+    // Affinity and mood before the turn, from the snapshot on the user message it answers; missing on older messages.
+    statsBefore?: ConversationStats;
+}
+
+const isTurnBubble = (msg: Message) => msg.sender === 'ai' && !msg.isLoading && !msg.imageUrls?.length && !msg.media && !msg.voiceCall;
+
+const clampStat = (value: number) => Math.max(0, Math.min(100, value));
+
+/**
+ * The reply bubbles right after the last user message: the only turn that can be regenerated or swiped,
+ * since later messages would be answering a different reply. Images the turn asked for come after these
+ * bubbles and are not part of it. A turn from before variants were recorded counts as one variant without
+ * stat adjustments; a failed turn counts as none, so regenerating replaces it.
+ */
+export const findLatestTurn = (messages: Message[]): LatestTurn | null => {
+    let start = messages.length;
+    while (start > 0 && messages[start - 1].sender !== 'user') start--;
+    if (start === 0) return null;
+
+    let end = start;
+    while (end < messages.length && isTurnBubble(messages[end])) end++;
+    if (end === start) return null;
+
+    const turnMessages = messages.slice(start, end);
+    const anchor = turnMessages[0];
+    const variants = anchor.variants
+        ?? (anchor.isError ? [] : [{ texts: turnMessages.map(msg => msg.text), affinityAdjustment: 0, sexyMoodAdjustment: 0 }]);
+    return { anchor, messages: turnMessages, variants, activeVariant: anchor.activeVariant ?? 0, statsBefore: messages[start - 1].stats };
+};
+
+/**
+ * Replaces the turn's bubbles with variant `index` of `variants`. Returns the new message list and the ids
+ * of bubbles that are gone, which the caller deletes from storage.
+ */
+export const applyVariant = (messages: Message[], turn: LatestTurn, variants: ResponseVariant[], index: number): { messages: Message[]; removedIds: string[] } => {
+    const { texts } = variants[index];
+    const anchorTime = new Date(turn.anchor.timestamp).getTime();
+    const anchor: Message = { ...turn.anchor, text: texts[0] ?? '', isError: false, variants, activeVariant: index };
+    // Follower ids are stable per variant, so swiping back to a variant rewrites the same stored messages.
+    const followers: Message[] = texts.slice(1).map((text, i) => ({
+        id: `${turn.anchor.id}-v${index}-${i + 1}`,
+        text,
+        sender: 'ai',
+        timestamp: new Date(anchorTime + i + 1),
+    }));
+
+    const start = messages.indexOf(turn.anchor);
+    const end = start + turn.messages.length;
+    const followerIds = new Set(followers.map(msg => msg.id));
+    return {
+        messages: [...messages.slice(0, start), anchor, ...followers, ...messages.slice(end)],
+        removedIds: turn.messages.slice(1).map(msg => msg.id).filter(id => !followerIds.has(id)),
+    };
+};
+
+/**
+ * Affinity and mood with `to`'s adjustments in place of the shown variant's. They are applied to the stats from
+ * before the turn, so an adjustment that was cut off at 0 or 100 doesn't skew the result; without that snapshot
+ * the shown variant's adjustments are subtracted from `stats` instead.
+ */
+export const swapVariantStats = (stats: ConversationStats, turn: LatestTurn, to: ResponseVariant): ConversationStats => {
+    const from = turn.variants[turn.activeVariant];
+    const before = turn.statsBefore ?? {
+        affinity: stats.affinity - (from?.affinityAdjustment ?? 0),
+        sexyMood: stats.sexyMood - (from?.sexyMoodAdjustment ?? 0),
+    };
+    return {
+        affinity: clampStat(before.affinity + to.affinityAdjustment),
+        sexyMood: clampStat(before.sexyMood + to.sexyMoodAdjustment),
+    };
+};
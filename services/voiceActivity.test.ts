@@ -0,0 +1,50 @@
+import { describe, expect, it } from 'vitest';
+import { createMicGate } from './voiceActivity';
+import type { MicGateControls } from './voiceActivity';
+
+// A chunk with a constant RMS of `rms` (full scale 1).
+const chunkAt = (rms: number) => new Int16Array(160).map((_, i) => (i % 2 ? 1 : -1) * Math.round(rms * 0x8000));
+const quiet = () => chunkAt(0.002);
+const loud = () => chunkAt(0.2);
+
+const vad: MicGateControls = { mode: 'vad', muted: false, talking: false };
+
+describe('createMicGate', () => {
+  it('holds back silence, opens on speech with the pre-roll, and closes after the hangover', () => {
+    const gate = createMicGate({ preRollChunks: 2, hangoverChunks: 1 });
+    const silence = [quiet(), quiet(), quiet()];
+    for (const chunk of silence) expect(gate.process(chunk, vad)).toMatchObject({ open: false, send: [], endStream: false });
+
+    const speech = loud();
+    const onset = gate.process(speech, vad);
+    expect(onset.open).toBe(true);
+    expect(onset.send).toEqual([silence[1], silence[2], speech]);
+    expect(onset.level).toBeCloseTo(0.767, 3); // -14 dBFS on a 60 dB scale
+
+    const pause = quiet();
+    expect(gate.process(pause, vad)).toMatchObject({ open: true, send: [pause], endStream: false });
+    expect(gate.process(quiet(), vad)).toMatchObject({ open: false, send: [], endStream: true });
+    expect(gate.process(quiet(), vad).endStream).toBe(false);
+  });
+
+  it('learns steady background noise instead of treating it as speech for good', () => {
+    const gate = createMicGate({ hangoverChunks: 0 });
+    const hum = () => chunkAt(0.03);
+    const results = Array.from({ length: 300 }, () => gate.process(hum(), vad));
+    expect(results[0].open).toBe(true);
+    expect(results[results.length - 1].open).toBe(false);
+    expect(gate.process(chunkAt(0.3), vad).open).toBe(true);
+  });
+
+  it('follows the button in push-to-talk mode and stays closed while muted', () => {
+    const gate = createMicGate();
+    const held = { mode: 'push-to-talk', muted: false, talking: true } as const;
+    expect(gate.process(loud(), { ...held, talking: false }).open).toBe(false);
+    const whisper = quiet();
+    expect(gate.process(whisper, held)).toMatchObject({ open: true, send: [whisper] });
+    expect(gate.process(quiet(), { ...held, talking: false })).toMatchObject({ open: false, endStream: true });
+
+    expect(gate.process(loud(), { ...vad, muted: true })).toMatchObject({ open: false, send: [], endStream: false });
+    expect(gate.process(loud(), { ...held, muted: true }).open).toBe(false);
+  });
+});
@@ -0,0 +1,115 @@
+// Local voice activity detection for call audio, deciding which mic chunks are uploaded.
+
+export type VoiceInputMode = 'vad' | 'push-to-talk';
+
+export interface MicGateControls {
+    mode: VoiceInputMode;
+    muted: boolean;
+    // Whether the push-to-talk button is held; ignored in 'vad' mode.
+    talking: boolean;
+}
+
+export interface MicGateResult {
+    // Loudness of the chunk for a level meter, 0 to 1.
+    level: number;
+    // Whether the gate is open, i.e. the user's audio is being uploaded.
+    open: boolean;
+    // Chunks to upload now, oldest first; speech onset also releases the chunks just before it.
+    send: Int16Array[];
+    // The gate just closed: the caller should tell the session the audio stream paused.
+    endStream: boolean;
+}
+
+export interface MicGate {
+    process: (chunk: Int16Array, controls: MicGateControls) => MicGateResult;
+}
+
+export interface MicGateOptions {
+    // Chunks kept from before speech onset, so the first syllable isn't clipped.
+    preRollChunks?: number;
+    // Quiet chunks allowed inside speech before the gate closes, to ride over pauses between words.
+    hangoverChunks?: number;
+    // Speech must be this many times louder than the noise floor...
+    speechToNoiseRatio?: number;
+    // ...and at least this loud (RMS, full scale 1).
+    minSpeechRms?: number;
+}
+
+const DEFAULT_OPTIONS: Required<MicGateOptions> = {
+    preRollChunks: 2,
+    hangoverChunks: 6,
+    speechToNoiseRatio: 3,
+    minSpeechRms: 0.01,
+};
+
+const INITIAL_NOISE_FLOOR = 0.005;
+// How fast the noise floor follows louder background noise; it drops to quieter noise at once. It still rises,
+// slowly, during speech, so a noise that starts up loud enough to count as speech doesn't hold the gate open forever.
+const NOISE_FLOOR_RISE = 0.05;
+const NOISE_FLOOR_RISE_DURING_SPEECH = 0.005;
+// RMS mapped to the meter's 0-1 range on a dB scale from -60 dBFS to 0.
+const METER_FLOOR_DB = -60;
+
+const rmsOf = (chunk: Int16Array): number => {
+    if (chunk.length === 0) return 0;
+    let sum = 0;
+    for (let i = 0; i < chunk.length; i++) {
+        const sample = chunk[i] / 0x8000;
+        sum += sample * sample;
+    }
+    return Math.sqrt(sum / chunk.length);
+};
+
+const meterLevel = (rms: number): number => {
+    if (rms <= 0) return 0;
+    const db = 20 * Math.log10(rms);
+    return Math.max(0, Math.min(1, (db - METER_FLOOR_DB) / -METER_FLOOR_DB));
+};
+
+/**
+ * Gates mic chunks before they go to the Live session. In 'vad' mode, an energy detector with an adaptive
+ * noise floor opens the gate on speech and closes it after a short hangover, so silence and steady
+ * background noise are never uploaded. In 'push-to-talk' mode the gate follows the button, and muting
+ * closes it in either mode.
+ */
+export const createMicGate = (options: MicGateOptions = {}): MicGate => {
+    const { preRollChunks, hangoverChunks, speechToNoiseRatio, minSpeechRms } = { ...DEFAULT_OPTIONS, ...options };
+    let noiseFloor = INITIAL_NOISE_FLOOR;
+    let speaking = false;
+    let quietChunks = 0;
+    let open = false;
+    let preRoll: Int16Array[] = [];
+
+    const detectSpeech = (rms: number): boolean => {
+        const isLoud = rms >= Math.max(minSpeechRms, noiseFloor * speechToNoiseRatio);
+        if (isLoud) {
+            quietChunks = 0;
+            speaking = true;
+        } else if (speaking && ++quietChunks > hangoverChunks) {
+            speaking = false;
+        }
+        noiseFloor = rms < noiseFloor ? rms
+            : noiseFloor + (rms - noiseFloor) * (speaking ? NOISE_FLOOR_RISE_DURING_SPEECH : NOISE_FLOOR_RISE);
+        return speaking;
+    };
+
+    const process = (chunk: Int16Array, { mode, muted, talking }: MicGateControls): MicGateResult => {
+        const rms = rmsOf(chunk);
+        // The detector keeps learning the noise floor even while its decision isn't used.
+        const speech = detectSpeech(rms);
+        const shouldOpen = !muted && (mode === 'push-to-talk' ? talking : speech);
+
+        const wasOpen = open;
+        open = shouldOpen;
+        let send: Int16Array[] = [];
+        if (shouldOpen) {
+            send = wasOpen || mode === 'push-to-talk' ? [chunk] : [...preRoll, chunk];
+            preRoll = [];
+        } else {
+            preRoll = preRollChunks > 0 ? [...preRoll, chunk].slice(-preRollChunks) : [];
+        }
+        return { level: meterLevel(rms), open: shouldOpen, send, endStream: wasOpen && !shouldOpen };
+    };
+
+    return { process };
+};
@@ -0,0 +1,67 @@
+import { describe, expect, it } from 'vitest';
+import type { Conversation } from '../types';
+import { appendTranscriptChunk, buildVoiceCallMessages, formatCallDuration, parseRelationshipAdjustment, withCallTranscript } from './voiceCallService';
+
+describe('appendTranscriptChunk', () => {
+  it('continues the entry while the speaker stays the same', () => {
+    let entries = appendTranscriptChunk([], 'user', '오늘 ', 1000);
+    entries = appendTranscriptChunk(entries, 'user', '뭐 해?', 1200);
+    entries = appendTranscriptChunk(entries, 'ai', '그냥 쉬고 있어', 2000);
+    entries = appendTranscriptChunk(entries, 'user', '나도', 3000);
+    expect(entries).toEqual([
+      { speaker: 'user', text: '오늘 뭐 해?', startedAt: 1000 },
+      { speaker: 'ai', text: '그냥 쉬고 있어', startedAt: 2000 },
+      { speaker: 'user', text: '나도', startedAt: 3000 },
+    ]);
+  });
+});
+
+describe('buildVoiceCallMessages', () => {
+  it('turns entries into messages tagged with the call, dropping empty ones', () => {
+    const messages = buildVoiceCallMessages({
+      startedAt: 1000,
+      endedAt: 96_000,
+      entries: [
+        { speaker: 'user', text: ' 여보세요  ', startedAt: 2000 },
+        { speaker: 'ai', text: '   ', startedAt: 3000 },
+        { speaker: 'ai', text: '응, 나야', startedAt: 4000 },
+      ],
+    });
+    expect(messages).toEqual([
+      { id: 'voice-1000-0', text: '여보세요', sender: 'user', timestamp: new Date(2000), voiceCall: { id: 'voice-1000', durationMs: 95_000 } },
+      { id: 'voice-1000-1', text: '응, 나야', sender: 'ai', timestamp: new Date(4000), voiceCall: { id: 'voice-1000', durationMs: 95_000 } },
+    ]);
+  });
+});
+
+describe('formatCallDuration', () => {
+  it('formats seconds and minutes in Korean', () => {
+    expect(formatCallDuration(42_000)).toBe('42초');
+    expect(formatCallDuration(120_000)).toBe('2분');
+    expect(formatCallDuration(95_400)).toBe('1분 35초');
+  });
+});
+
+describe('parseRelationshipAdjustment', () => {
+  it('rounds numbers, reads numeric strings and treats anything else as no change', () => {
+    expect(parseRelationshipAdjustment({ affinityAdjustment: 2.4, sexyMoodAdjustment: '-3' })).toEqual({ affinityAdjustment: 2, sexyMoodAdjustment: -3 });
+    expect(parseRelationshipAdjustment({ affinityAdjustment: 'lots' })).toEqual({ affinityAdjustment: 0, sexyMoodAdjustment: 0 });
+    expect(parseRelationshipAdjustment(undefined)).toEqual({ affinityAdjustment: 0, sexyMoodAdjustment: 0 });
+  });
+});
+
+describe('withCallTranscript', () => {
+  it('appends the call so far and leaves a conversation without new speech as it is', () => {
+    const conversation: Conversation = {
+      characterId: 'c1',
+      messages: [{ id: 'm1', text: '안녕', sender: 'ai', timestamp: new Date(500) }],
+      affinity: 40,
+      sexyMood: 10,
+      chatActive: true,
+      hasUnreadMessages: false,
+    };
+    const call = { startedAt: 1000, endedAt: 5000, entries: [{ speaker: 'user' as const, text: '여보세요', startedAt: 2000 }] };
+    expect(withCallTranscript(conversation, call).messages.map(msg => msg.text)).toEqual(['안녕', '여보세요']);
+    expect(withCallTranscript(conversation, { ...call, entries: [] })).toBe(conversation);
+  });
+});
@@ -0,0 +1,79 @@
+import type { Conversation, Message } from '../types';
+
+export interface VoiceTranscriptEntry {
+    speaker: Message['sender'];
+    text: string;
+    startedAt: number;
+}
+
+export interface VoiceCallTranscript {
+    startedAt: number;
+    endedAt: number;
+    entries: VoiceTranscriptEntry[];
+}
+
+/** Stat changes from the `adjustRelationship` tool, on the same scale as a text turn's adjustments. */
+export interface RelationshipAdjustment {
+    affinityAdjustment: number;
+    sexyMoodAdjustment: number;
+}
+
+const toInteger = (value: unknown): number => {
+    const parsed = typeof value === 'number' ? value : parseInt(String(value ?? ''), 10);
+    return Number.isFinite(parsed) ? Math.round(parsed) : 0;
+};
+
+/**
+ * Adds a transcription chunk from the Live API. Chunks arrive a few words at a time, so a chunk from the
+ * same speaker as the last entry continues it; a change of speaker starts a new entry.
+ */
+export const appendTranscriptChunk = (
+    entries: VoiceTranscriptEntry[],
+    speaker: VoiceTranscriptEntry['speaker'],
+    text: string,
+    now: number = Date.now()
+): VoiceTranscriptEntry[] => {
+    const last = entries[entries.length - 1];
+    if (last?.speaker === speaker) {
+        return [...entries.slice(0, -1), { ...last, text: last.text + text }];
+    }
+    return [...entries, { speaker, text, startedAt: now }];
+};
+
+export const formatCallDuration = (durationMs: number): string => {
+    const totalSeconds = Math.max(0, Math.round(durationMs / 1000));
+    const minutes = Math.floor(totalSeconds / 60);
+    const seconds = totalSeconds % 60;
+    if (minutes === 0) return `${seconds}초`;
+    return seconds === 0 ? `${minutes}분` : `${minutes}분 ${seconds}초`;
+};
+
+/** One message per transcript entry, all tagged with the call so the chat can fold them into one group. */
+export const buildVoiceCallMessages = (call: VoiceCallTranscript): Message[] => {
+    const voiceCall = { id: `voice-${call.startedAt}`, durationMs: call.endedAt - call.startedAt };
+    return call.entries
+        .map(entry => ({ ...entry, text: entry.text.replace(/\s+/g, ' ').trim() }))
+        .filter(entry => entry.text)
+        .map((entry, index) => ({
+            id: `${voiceCall.id}-${index}`,
+            text: entry.text,
+            sender: entry.speaker,
+            timestamp: new Date(entry.startedAt),
+            voiceCall,
+        }));
+};
+
+/** Reads `adjustRelationship` arguments; missing or malformed values count as no change. */
+export const parseRelationshipAdjustment = (args: Record<string, unknown> | undefined): RelationshipAdjustment => ({
+    affinityAdjustment: toInteger(args?.affinityAdjustment),
+    sexyMoodAdjustment: toInteger(args?.sexyMoodAdjustment),
+});
+
+/**
+ * The conversation with the call so far appended, for rebuilding the voice prompt when a dropped call
+ * reconnects; without it a session that can't be resumed would forget what was just said.
+ */
+export const withCallTranscript = (conversation: Conversation, call: VoiceCallTranscript): Conversation => {
+    const callMessages = buildVoiceCallMessages(call);
+    return callMessages.length > 0 ? { ...conversation, messages: [...conversation.messages, ...callMessages] } : conversation;
+};
@@ -11,16 +11,95 @@ export interface Message {
   loadingText?: string;
   isError?: boolean;
   threadParentId?: string;
+  media?: GeneratedMedia;
+  // Set on the first bubble of an AI turn: every reply generated for it, and the one shown.
+  variants?: ResponseVariant[];
+  activeVariant?: number;
+  // On user messages: affinity and mood when the message was sent, restored when it is edited or deleted.
+  stats?: ConversationStats;
+  voiceCall?: VoiceCallInfo; // transcript line of a voice call
+}
+
+export interface VoiceCallInfo {
+  id: string;
+  durationMs: number;
+}
+
+export interface ConversationStats {
+  affinity: number;
+  sexyMood: number;
+}
+
+// One reply to a user turn. The stat adjustments are kept so they can be taken back when another reply is chosen.
+export interface ResponseVariant {
+  texts: string[];
+  affinityAdjustment: number;
+  sexyMoodAdjustment: number;
+}
+
+// How an AI image message was produced; listed in the conversation's media gallery.
+export interface GeneratedMedia {
+  source: 'generate' | 'edit';
+  prompt: string;
+  style?: ImageStyle;
 }
 
 export type CharacterCapability = 'image_generate' | 'image_edit';
 
+// 'structured' requests a JSON CharacterTurn via responseSchema; 'legacy' keeps the THOUGHT/MESSAGE/COMMANDS text format.
+export type CharacterResponseFormat = 'structured' | 'legacy';
+
+// An example turn quoted inside a prompt, e.g. `THOUGHT: ... AFFINITY_ADJUSTMENT: 2, SEXY_MOOD_ADJUSTMENT: 1`.
+export interface PromptTurnExample {
+  thought: string;
+  affinity: number;
+  sexyMood: number;
+}
+
+/**
+ * A character prompt split into typed sections. Shared rules (base principles, stat adjustment,
+ * image command format, message splitting, output format) are added by services/promptBuilder,
+ * which also decides which sections each mode (text chat / voice call) gets.
+ */
+export interface PromptSections {
+  role: string; // e.g. 'AI 여자친구'
+  persona: string[]; // who the character is and how they met the user
+  personality: string[];
+  background: string[];
+  statSystem: {
+    affinity: string;
+    leaveCondition: string; // what happens at affinity 0
+    sexyMood: string;
+    adjustmentExamples: PromptTurnExample[];
+    moodGuide: { low: string; medium: string; high: string; max: string };
+  };
+  mediaRules?: {
+    selfieTraits: string; // e.g. '24살, ENFP, 밝고 사랑스러움'
+    selfieSubject: string; // e.g. '매력적인 20대 한국 여성'
+    selfiePromptExample: string;
+    sceneRequestExample: string;
+    refusalExamples: string[];
+    refusalTone: string; // e.g. '부드럽게'
+    example: PromptTurnExample & { message: string; imagePrompt: string };
+  };
+  messageStyle?: {
+    principle: string;
+    styleName: string; // e.g. 'ENFP'
+    style: string;
+    examples: { situation: string; messages: string[] }[];
+    note: string;
+  };
+  voiceDirection?: string;
+}
+
 export interface Character {
   id:string;
   name: string;
   age: number;
   avatarUrl: string;
+  // Full text-chat prompt. For characters with `promptSections` it is composed from them.
   systemPrompt: string;
+  promptSections?: PromptSections;
   initialMessage: string;
   initialAffinity: number;
   initialSexyMood: number;
@@ -33,6 +112,21 @@ export interface Character {
   voiceName: string;
   ambientSounds?: Record<string, { url: string; description: string }>;
   defaultAmbientSound?: string;
+  responseFormat?: CharacterResponseFormat;
+}
+
+// Rolling summary of the history that has scrolled out of the model's context window.
+export interface ConversationSummary {
+  text: string;
+  coveredUntil: number; // timestamp (ms) of the newest message folded into the summary
+  updatedAt: number;
+}
+
+// A fact the character chose to remember with the REMEMBER command; stored per character in IndexedDB.
+export interface CharacterMemory {
+  id: string;
+  text: string;
+  createdAt: number;
 }
 
 export interface Conversation {
@@ -44,6 +138,21 @@ export interface Conversation {
   chatActive: boolean;
   hasUnreadMessages: boolean;
   warning?: string; // For admin warnings
+  hasMoreHistory?: boolean; // Older messages remain in IndexedDB and are paged in on demand
+  summary?: ConversationSummary;
+  branches?: ConversationBranch[]; // continuations set aside by edits, deletions and branch switches
+}
+
+/**
+ * A continuation of the conversation that isn't shown. Its messages are kept in the branch store;
+ * the stats and chatActive are the state at its end, restored when it is switched back in.
+ */
+export interface ConversationBranch extends ConversationStats {
+  id: string;
+  forkAfterId: string | null; // last message it shares with the shown conversation; null when it starts the conversation
+  startedAt: number; // time of its first message, which orders sibling branches
+  preview: string;
+  chatActive: boolean;
 }
 
 export type Conversations = Record<string, Conversation>;
@@ -57,4 +166,39 @@ export type GeminiContent = {
   parts: GeminiMessagePart[];
 };
 
+export type CharacterCommand =
+  | { type: 'GENERATE_IMAGE'; prompt: string }
+  | { type: 'EDIT_IMAGE'; prompt?: string }
+  | { type: 'REMEMBER'; fact: string }
+  | { type: 'LEAVE_CHAT' };
+
+// A single parsed model turn, regardless of whether it came back as JSON or legacy text.
+export interface CharacterTurn {
+  thought?: string;
+  messages: string[];
+  affinityAdjustment: number;
+  sexyMoodAdjustment: number;
+  commands: CharacterCommand[];
+}
+
+/**
+ * A queued image request, persisted so it survives reloads. 'message' jobs fill the loading bubble whose id
+ * is the job id; 'avatar' jobs produce a predefined character's first avatar.
+ */
+export interface ImageJob {
+  id: string;
+  profile: UserGender;
+  characterId: string;
+  purpose: 'message' | 'avatar';
+  kind: 'generate' | 'edit';
+  prompt: string;
+  style: ImageStyle;
+  reference?: { mimeType: string; data: string }; // face to keep, for 'generate'
+  sourceImage?: Blob; // photo to change, for 'edit'
+  pinAsReference?: boolean; // keep the result as the character's face reference
+  loadingText: string;
+  createdAt: number;
+  attempts: number;
+}
+
 export type ImageStyle = 'Photorealistic' | 'Anime / Webtoon' | 'Fantasy Art' | 'Watercolor' | 'Sketch';
\ No newline at end of file
@@ -10,9 +10,21 @@ export default defineConfig(({ mode }) => {
         host: '0.0.0.0',
       },
       plugins: [react()],
+      // The mic capture worklet is loaded with `audioWorklet.addModule`, which takes ES modules.
+      worker: {
+        format: 'es',
+      },
       define: {
         'process.env.API_KEY': JSON.stringify(env.GEMINI_API_KEY),
-        'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY)
+        'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY),
+        'process.env.LLM_PROVIDER': JSON.stringify(env.LLM_PROVIDER),
+        'process.env.IMAGE_PROVIDER': JSON.stringify(env.IMAGE_PROVIDER),
+        'process.env.OPENAI_BASE_URL': JSON.stringify(env.OPENAI_BASE_URL),
+        'process.env.OPENAI_API_KEY': JSON.stringify(env.OPENAI_API_KEY),
+        'process.env.OPENAI_CHAT_MODEL': JSON.stringify(env.OPENAI_CHAT_MODEL),
+        'process.env.OPENAI_PRO_MODEL': JSON.stringify(env.OPENAI_PRO_MODEL),
+        'process.env.OPENAI_LITE_MODEL': JSON.stringify(env.OPENAI_LITE_MODEL),
+        'process.env.OPENAI_IMAGE_MODEL': JSON.stringify(env.OPENAI_IMAGE_MODEL)
       },
       resolve: {
         alias: {